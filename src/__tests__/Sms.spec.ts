@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator, SmsStatusChangeEvent } from '..';
+import { SmsStatus } from '../models/types/Sms';
+import { createReadyModem, release, waitFor } from './helpers';
+
+describe('Sms delivery reports', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('flags the Sms as delivered once the report is received', async () => {
+    ({ modem, simulator } = await createReadyModem({ deliveryReportDelay: 50 }));
+    const sms = modem.createSms('+33600000000', 'hello', { deliveryReport: true });
+    const statuses: SmsStatus[] = [];
+    sms.on('statuschange', (event: SmsStatusChangeEvent) => statuses.push(event.partStatus));
+    sms.sendFlag = true;
+    await waitFor(() => sms.status === SmsStatus.DELIVERED);
+    expect(statuses).toEqual([SmsStatus.SENDING, SmsStatus.SENT, SmsStatus.DELIVERED]);
+    expect(simulator.commands.some((command) => command.startsWith('AT+CMGS='))).toBe(true);
+  });
+
+  it('flags every part of a multipart Sms as delivered', async () => {
+    ({ modem } = await createReadyModem({ deliveryReportDelay: 50 }));
+    const sms = modem.createSms('+33600000000', 'x'.repeat(100), { deliveryReport: true, autoSend: true });
+    await waitFor(() => sms.status === SmsStatus.DELIVERED);
+    const parts = sms.toJSON().parts;
+    expect(parts).toHaveLength(2);
+    expect(parts.every((part) => part.status === SmsStatus.DELIVERED)).toBe(true);
+    expect(new Set(parts.map((part) => part.shortId)).size).toBe(2);
+  });
+
+  it('flags the part as failed when the report carries an error status', async () => {
+    ({ modem, simulator } = await createReadyModem({ deliveryReportDelay: 600000 }));
+    const sms = modem.createSms('+33600000000', 'hello', { deliveryReport: true, autoSend: true });
+    const errors: (string | number)[] = [];
+    sms.on('smserror', (event) => errors.push(event.errorStatus!));
+    await waitFor(() => sms.status === SmsStatus.SENT);
+    simulator.sendDeliveryReport(sms.toJSON().parts[0].shortId!, '33600000000', '46');
+    await waitFor(() => sms.status === SmsStatus.ERROR);
+    expect(errors).toEqual(['46']);
+  });
+
+  it('ignores the reports of other messages', async () => {
+    ({ modem, simulator } = await createReadyModem({ deliveryReportDelay: 600000 }));
+    const sms = modem.createSms('+33600000000', 'hello', { deliveryReport: true, autoSend: true });
+    await waitFor(() => sms.status === SmsStatus.SENT);
+    const reports = new Promise((resolve) => modem.once('deliveryreport', resolve));
+    simulator.sendDeliveryReport(sms.toJSON().parts[0].shortId! + 1);
+    await reports;
+    expect(sms.status).toBe(SmsStatus.SENT);
+  });
+
+  it('stops listening to the modem once delivered', async () => {
+    ({ modem } = await createReadyModem({ deliveryReportDelay: 50 }));
+    const listeners = modem.listenerCount('deliveryreport');
+    const sms = modem.createSms('+33600000000', 'hello', { deliveryReport: true, autoSend: true });
+    expect(modem.listenerCount('deliveryreport')).toBe(listeners + 1);
+    await waitFor(() => sms.status === SmsStatus.DELIVERED);
+    expect(modem.listenerCount('deliveryreport')).toBe(listeners);
+    expect(modem.outbox).not.toContain(sms);
+  });
+});
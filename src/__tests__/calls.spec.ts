@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { CallDirection, CallInfo, CallState, IncomingCall, Sim800LSimulator } from '..';
+import { createReadyModem, release, waitFor } from './helpers';
+
+describe('calls', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+  let states: CallState[];
+
+  const trackCalls = () => {
+    states = [];
+    modem.on('callstate', (call: CallInfo) => states.push(call.state));
+  };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('reports the progress of an outgoing call until the remote party hangs up', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    trackCalls();
+    await expect(modem.dial(null, { number: '+33600000000' })).resolves.toMatchObject({ result: 'success' });
+    expect(simulator.commands).toContain('ATD+33600000000;');
+    await waitFor(() => states.includes(CallState.ALERTING));
+    simulator.answerCall();
+    await waitFor(() => states.includes(CallState.ACTIVE));
+    const calls = await modem.getCalls(null, {});
+    expect(calls.data?.processed).toMatchObject([
+      { index: 1, direction: CallDirection.OUTGOING, state: CallState.ACTIVE, number: '+33600000000' },
+    ]);
+    simulator.endCall();
+    await waitFor(() => states.includes(CallState.DISCONNECTED));
+    expect(states).toEqual([CallState.DIALING, CallState.ALERTING, CallState.ACTIVE, CallState.DISCONNECTED]);
+  });
+
+  it('rejects a dial string that would smuggle another command in', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await expect(modem.dial(null, { number: '0600000000;+CPOWD=1' })).resolves.toMatchObject({
+      result: 'failure',
+      error: { type: 'invalid-parameter' },
+    });
+    expect(simulator.commands.some((command) => command.startsWith('ATD'))).toBe(false);
+  });
+
+  it('notifies an incoming call once, answers it and hangs up', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    trackCalls();
+    let rings = 0;
+    let notifications = 0;
+    modem.on('ring', () => (rings += 1));
+    modem.on('incomingcall', () => (notifications += 1));
+    const incoming = new Promise<IncomingCall>((resolve) => modem.once('incomingcall', resolve));
+    simulator.ring('+33611111111');
+    await expect(incoming).resolves.toMatchObject({ number: '+33611111111' });
+    simulator.ring('+33611111111');
+    await waitFor(() => rings === 2);
+    expect(notifications).toBe(1);
+    await expect(modem.answer(null, {})).resolves.toMatchObject({ result: 'success' });
+    await waitFor(() => states.includes(CallState.ACTIVE));
+    await expect(modem.hangUp(null, {})).resolves.toMatchObject({ result: 'success' });
+    expect(states).toEqual([CallState.INCOMING, CallState.ACTIVE, CallState.DISCONNECTED]);
+  });
+});
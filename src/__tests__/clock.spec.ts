@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator } from '..';
+import { createReadyModem, release } from './helpers';
+
+describe('NTP synchronization', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  const config = { gprs: { apn: 'internet' } };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('synchronizes the clock with the server', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const response = await modem.syncNtp(null, { server: 'time.example.com', timezone: 120 });
+    expect(response.result).toBe('success');
+    expect(Math.abs(response.data!.processed.getTime() - Date.now())).toBeLessThan(5000);
+    expect(simulator.commands).toContain('AT+CNTP="time.example.com",8');
+  });
+
+  it('fails when the server can not be reached', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    simulator.setHostReachable('10.0.0.1');
+    await expect(modem.syncNtp(null, { server: '10.0.0.1' })).resolves.toMatchObject({ result: 'failure' });
+  });
+
+  it('rejects the servers that are neither a host name nor an address', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    for (const server of ['pool.ntp.org",0\r\nAT+CPOWD=1\r\n', 'pool ntp org', '']) {
+      await expect(modem.syncNtp(null, { server })).resolves.toMatchObject({
+        result: 'failure',
+        error: { type: 'invalid-parameter' },
+      });
+    }
+    expect(simulator.commands.some((command) => command.startsWith('AT+CNTP'))).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator, parseModemError } from '..';
+import { ModemErrorCategory } from '../models/types/ModemResponse';
+import { createReadyModem, release } from './helpers';
+
+describe('parseModemError', () => {
+  it('parses a numeric error', () => {
+    expect(parseModemError('+CMS ERROR: 500')).toEqual({
+      type: 'CMS',
+      code: 500,
+      category: ModemErrorCategory.UNKNOWN,
+      temporary: true,
+      description: 'unknown error',
+      raw: '+CMS ERROR: 500',
+    });
+  });
+
+  it('finds the code of a verbose error, whatever the firmware wording', () => {
+    expect(parseModemError('+CME ERROR: SIM PIN required')).toMatchObject({
+      code: 11,
+      category: ModemErrorCategory.SIM,
+      temporary: false,
+    });
+    expect(parseModemError('+CME ERROR: (U)SIM PUK REQUIRED')).toMatchObject({ code: 12 });
+    expect(parseModemError('+CMS ERROR: invalid memory index')).toMatchObject({
+      code: 321,
+      category: ModemErrorCategory.STORAGE,
+    });
+  });
+
+  it('flags the temporary network errors', () => {
+    expect(parseModemError('+CMS ERROR: 42')).toMatchObject({ category: ModemErrorCategory.NETWORK, temporary: true });
+  });
+
+  it('keeps the uncatalogued errors', () => {
+    expect(parseModemError('+CME ERROR: 9999')).toMatchObject({
+      code: 9999,
+      category: ModemErrorCategory.UNKNOWN,
+      description: 'unknown CME error',
+    });
+    expect(parseModemError('+CME ERROR: something odd')).toMatchObject({
+      code: undefined,
+      description: 'something odd',
+    });
+  });
+
+  it('ignores the lines that are not +CME / +CMS errors', () => {
+    expect(parseModemError('ERROR')).toBeUndefined();
+    expect(parseModemError('+CSQ: 20,0')).toBeUndefined();
+  });
+});
+
+describe('modem errors', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('attaches the catalogued error to a failed command, in verbose mode', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError('AT+CPMS?', { type: 'CMS', code: 310, message: 'SIM not inserted' });
+    const response = await modem.execCommand(null, { command: 'AT+CPMS?', type: 'storage' });
+    expect(response.error?.modemError).toMatchObject({
+      type: 'CMS',
+      code: 310,
+      category: ModemErrorCategory.SIM,
+      raw: '+CMS ERROR: SIM not inserted',
+    });
+  });
+
+  it('attaches the catalogued error to a failed command, in numeric mode', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await modem.execCommand(null, { command: 'AT+CMEE=1', type: 'error-mode' });
+    simulator.injectError('AT+CSQ', { type: 'CME', code: 30, message: 'no network service' });
+    const response = await modem.execCommand(null, { command: 'AT+CSQ', type: 'signal' });
+    expect(response.result).toBe('failure');
+    expect(response.error?.modemError).toMatchObject({
+      type: 'CME',
+      code: 30,
+      category: ModemErrorCategory.NETWORK,
+      description: 'no network service',
+      raw: '+CME ERROR: 30',
+    });
+  });
+});
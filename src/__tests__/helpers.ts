@@ -0,0 +1,62 @@
+import Sim800L, { Sim800LSimulator, SimulatorOptions } from '..';
+import SimConfig from '../models/types/SimConfig';
+
+export type TestModem = {
+  modem: Sim800L;
+  simulator: Sim800LSimulator;
+};
+
+/**
+ * Creates a Sim800L instance talking to a simulator, the errors are swallowed so a failing command doesn't crash the test run
+ *
+ * @param {SimulatorOptions} [options={}] - the simulator options
+ * @param {Partial<SimConfig>} [config={}] - the Sim800L config
+ * @returns {TestModem} The modem and its simulator
+ */
+export function createModem(options: SimulatorOptions = {}, config: Partial<SimConfig> = {}): TestModem {
+  const simulator = new Sim800LSimulator(options);
+  const modem = new Sim800L(simulator, config as SimConfig);
+  modem.on('error', () => undefined);
+  return { modem, simulator };
+}
+
+/**
+ * Resolves once the predicate is true, polling it every 20ms
+ *
+ * @param {() => boolean} predicate - the condition to wait for
+ * @param {number} [timeout=10000] - rejects after this delay
+ */
+export async function waitFor(predicate: () => boolean, timeout = 10000): Promise<void> {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeout) {
+      throw new Error(`condition not met after ${timeout}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * Creates a modem and waits for it to be initialized and registered on the network
+ *
+ * @param {SimulatorOptions} [options={}] - the simulator options
+ * @param {Partial<SimConfig>} [config={}] - the Sim800L config
+ * @returns {Promise<TestModem>} The ready modem and its simulator
+ */
+export async function createReadyModem(
+  options: SimulatorOptions = {},
+  config: Partial<SimConfig> = {},
+): Promise<TestModem> {
+  const created = createModem(options, config);
+  await waitFor(() => created.modem.isInitialized && created.modem.isNetworkReady);
+  return created;
+}
+
+/**
+ * Releases the modem without draining, the simulator timers are cleared when it is closed
+ *
+ * @param {Sim800L} modem - the modem to release
+ */
+export async function release(modem: Sim800L): Promise<void> {
+  await modem.shutdown(null, { drain: false });
+}
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator } from '..';
+import { createReadyModem, release } from './helpers';
+
+describe('HTTP', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  const config = { gprs: { apn: 'internet' } };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('opens the bearer and resolves the response of a GET request', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    simulator.setHttpResponse('http://example.com/status', {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"ok":true}',
+    });
+    const response = await modem.httpRequest(null, { url: 'http://example.com/status' });
+    expect(response.result).toBe('success');
+    expect(response.data?.processed).toMatchObject({ status: 200, body: '{"ok":true}', length: 11 });
+    expect(Object.values(response.data?.processed.headers || {})).toContain('application/json');
+    expect(simulator.httpRequests).toMatchObject([{ method: 0, url: 'http://example.com/status' }]);
+    expect(simulator.httpRequests[0].parameters.SSL).toBe('0');
+    expect(simulator.commands).toEqual(expect.arrayContaining(['AT+SAPBR=3,1,"APN","internet"', 'AT+SAPBR=1,1']));
+    expect(simulator.commands[simulator.commands.length - 1]).toBe('AT+HTTPTERM');
+  });
+
+  it('uploads the body of a POST request with its headers', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    simulator.setHttpResponse('https://example.com/items', { status: 201 });
+    const response = await modem.httpRequest(null, {
+      method: 'POST',
+      url: 'https://example.com/items',
+      headers: { 'Content-Type': 'application/json', 'X-Token': 'abc' },
+      body: '{"name":"été"}',
+    });
+    expect(response.data?.processed).toMatchObject({ status: 201, body: '' });
+    expect(simulator.httpRequests).toMatchObject([
+      {
+        method: 1,
+        data: '{"name":"été"}',
+        parameters: { SSL: '1', CONTENT: 'application/json', USERDATA: 'X-Token: abc' },
+      },
+    ]);
+  });
+
+  it('keeps a binary body as is', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const body = Buffer.from([0x00, 0xff, 0x0d, 0x0a, 0x80, 0x4f, 0x4b]);
+    simulator.setHttpResponse(/\/image$/, { status: 200, body });
+    const response = await modem.httpRequest(null, { url: 'http://example.com/image' });
+    expect(response.data?.processed.rawBody.equals(body)).toBe(true);
+  });
+
+  it('resolves the error statuses of the server', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    await expect(modem.httpRequest(null, { url: 'http://example.com/missing' })).resolves.toMatchObject({
+      result: 'success',
+      data: { processed: { status: 404 } },
+    });
+  });
+
+  it('fails without an APN to open the bearer with', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await expect(modem.httpRequest(null, { url: 'http://example.com/' })).resolves.toMatchObject({ result: 'failure' });
+    expect(simulator.httpRequests).toEqual([]);
+  });
+
+  it('rejects the urls and headers that would end the command', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const start = simulator.commands.length;
+    await expect(modem.httpRequest(null, { url: 'http://example.com/"\r\nAT+CPOWD=1' })).resolves.toMatchObject({
+      result: 'failure',
+      error: { type: 'invalid-parameter' },
+    });
+    await expect(
+      modem.httpRequest(null, { url: 'http://example.com/', headers: { 'X-Token': 'a"b' } }),
+    ).resolves.toMatchObject({ result: 'failure', error: { type: 'invalid-parameter' } });
+    expect(simulator.commands.slice(start).some((command) => command.startsWith('AT+HTTP'))).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { InboundSms, Sim800LSimulator } from '..';
+import { createReadyModem, release, waitFor } from './helpers';
+
+const nextSms = (modem: Sim800L) => new Promise<InboundSms>((resolve) => modem.once('sms', resolve));
+
+describe('notified messages', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('reads a notified message from its storage and emits it', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const received = nextSms(modem);
+    const index = simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'hello there')[0]);
+    const sms = await received;
+    expect(sms.sender).toContain('33622222222');
+    expect(sms.text).toBe('hello there');
+    expect(sms.storage).toBe('SM');
+    expect(sms.index).toBe(index);
+    const commands = simulator.commands;
+    expect(commands.indexOf(`AT+CMGR=${index}`)).toBeGreaterThan(commands.lastIndexOf('AT+CPMS="SM"'));
+  });
+
+  it('deletes the message from the SIM once read', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const received = nextSms(modem);
+    const index = simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'hello')[0]);
+    await received;
+    await waitFor(() => simulator.commands.includes(`AT+CMGD=${index}`));
+    const usage = await modem.getStorageUsage(null, {});
+    expect(usage.data?.processed.receive.used).toBe(0);
+  });
+
+  it('keeps the message on the SIM when autoDeleteFromSim is off', async () => {
+    ({ modem, simulator } = await createReadyModem({}, { autoDeleteFromSim: false }));
+    const received = nextSms(modem);
+    simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'hello')[0]);
+    await received;
+    const usage = await modem.getStorageUsage(null, {});
+    expect(usage.data?.processed.receive.used).toBe(1);
+    expect(simulator.commands.some((command) => command.startsWith('AT+CMGD='))).toBe(false);
+  });
+
+  it('picks up a notification landing in the response of another command', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const pdu = Sim800LSimulator.buildDeliverPdus('33622222222', 'sneaky')[0];
+    simulator.setResponse(
+      'AT+CSQ',
+      () => {
+        simulator.receiveSms(pdu);
+        return '\r\n+CSQ: 20,0\r\n\r\nOK\r\n';
+      },
+      1,
+    );
+    const received = nextSms(modem);
+    await expect(modem.getSignalQuality(null, {})).resolves.toMatchObject({ result: 'success' });
+    await expect(received).resolves.toMatchObject({ text: 'sneaky' });
+  });
+});
+
+describe('multipart messages', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('reassembles the parts received out of order into a single message', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const text = `${'a'.repeat(67)}${'b'.repeat(67)}${'c'.repeat(20)}`;
+    const parts = Sim800LSimulator.buildDeliverPdus('33622222222', text);
+    const received = nextSms(modem);
+    [parts[2], parts[0], parts[1]].forEach((pdu) => simulator.receiveSms(pdu));
+    const sms = await received;
+    expect(sms.text).toBe(text);
+    expect(sms.parts).toBe(3);
+    expect(sms.incomplete).toBe(false);
+  });
+
+  it('reads the part counters as hexadecimal, for 10 parts and more', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const text = Array.from({ length: 11 }, (_, i) => String.fromCharCode(97 + i).repeat(67)).join('');
+    const parts = Sim800LSimulator.buildDeliverPdus('33622222222', text);
+    const received = nextSms(modem);
+    parts.reverse().forEach((pdu) => simulator.receiveSms(pdu));
+    const sms = await received;
+    expect(sms.parts).toBe(11);
+    expect(sms.text).toBe(text);
+  });
+
+  it('emits an incomplete message once the multipart timeout is over', async () => {
+    ({ modem, simulator } = await createReadyModem({}, { multipartTimeout: 300 }));
+    const parts = Sim800LSimulator.buildDeliverPdus('33622222222', 'x'.repeat(100));
+    const received = nextSms(modem);
+    simulator.receiveSms(parts[0]);
+    const sms = await received;
+    expect(sms.incomplete).toBe(true);
+    expect(sms.text).toBe('x'.repeat(67));
+  });
+});
+
+describe('message storage', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  const store = async (...texts: string[]) => {
+    for (const text of texts) {
+      const received = nextSms(modem);
+      simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', text)[0]);
+      await received;
+    }
+  };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('lists, reads and deletes the stored messages', async () => {
+    ({ modem, simulator } = await createReadyModem({}, { autoDeleteFromSim: false }));
+    await store('first', 'second');
+    const listed = await modem.listMessages(null, { filter: 'ALL' });
+    expect(listed.data?.processed.map((sms) => [sms.index, sms.text])).toEqual([
+      [1, 'first'],
+      [2, 'second'],
+    ]);
+    const read = await modem.readMessage(null, { index: 2 });
+    expect(read.data?.processed.text).toBe('second');
+    await expect(modem.deleteMessage(null, { index: 1 })).resolves.toMatchObject({ result: 'success' });
+    await expect(modem.readMessage(null, { index: 1 })).resolves.toMatchObject({ result: 'failure' });
+  });
+
+  it('empties the storage with deleteAll', async () => {
+    ({ modem, simulator } = await createReadyModem({}, { autoDeleteFromSim: false }));
+    await store('first', 'second');
+    await expect(modem.deleteAll(null, {})).resolves.toMatchObject({ result: 'success' });
+    const usage = await modem.getStorageUsage(null, {});
+    expect(usage.data?.processed.read).toMatchObject({ storage: 'SM', used: 0 });
+  });
+
+  it('selects the preferred storages and returns their usage', async () => {
+    ({ modem, simulator } = await createReadyModem({ storageSize: 20 }, { autoDeleteFromSim: false }));
+    await store('first');
+    const usage = await modem.setPreferredStorage(null, { read: 'SM', write: 'SM', receive: 'SM' });
+    expect(usage.data?.processed.read).toMatchObject({ used: 1, total: 20 });
+    expect(simulator.commands).toContain('AT+CPMS="SM","SM","SM"');
+  });
+
+  it('emits the failure to read a notified message as an error', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError(/^AT\+CMGR=/, { type: 'CMS', code: 321, message: 'invalid memory index' });
+    const error = new Promise((resolve) => modem.on('error', resolve));
+    simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'lost')[0]);
+    await expect(error).resolves.toMatchObject({ result: 'failure', type: 'read-sms' });
+  });
+});
+
+describe('direct messages', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  const directConfig = { customCnmi: '2,2,0,0,0' };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('emits a +CMT message without storing it', async () => {
+    ({ modem, simulator } = await createReadyModem({}, directConfig));
+    const received = nextSms(modem);
+    expect(simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'direct')[0])).toBeUndefined();
+    const sms = await received;
+    expect(sms.text).toBe('direct');
+    expect(sms.index).toBeUndefined();
+    expect(simulator.commands.some((command) => command.startsWith('AT+CMGR='))).toBe(false);
+  });
+
+  it('reassembles a multipart message routed directly', async () => {
+    ({ modem, simulator } = await createReadyModem({}, directConfig));
+    const text = `${'a'.repeat(67)}${'b'.repeat(10)}`;
+    const received = nextSms(modem);
+    Sim800LSimulator.buildDeliverPdus('33622222222', text).forEach((pdu) => simulator.receiveSms(pdu));
+    await expect(received).resolves.toMatchObject({ text, parts: 2 });
+  });
+
+  it('acknowledges the message with AT+CNMA under the phase 2+ service', async () => {
+    ({ modem, simulator } = await createReadyModem({}, directConfig));
+    await modem.execCommand(null, { command: 'AT+CSMS=1', type: 'set-sms-service' });
+    await expect(modem.getSmsService(null, {})).resolves.toMatchObject({ data: { processed: 1 } });
+    const received = nextSms(modem);
+    simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'ack me')[0]);
+    await received;
+    await waitFor(() => simulator.commands.includes('AT+CNMA'));
+  });
+
+  it('does not acknowledge the message under the phase 2 service', async () => {
+    ({ modem, simulator } = await createReadyModem({}, directConfig));
+    const received = nextSms(modem);
+    simulator.receiveSms(Sim800LSimulator.buildDeliverPdus('33622222222', 'no ack')[0]);
+    await received;
+    await modem.execCommand(null, { command: 'AT', type: 'check' });
+    expect(simulator.commands).not.toContain('AT+CNMA');
+  });
+});
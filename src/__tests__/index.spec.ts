@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { EventEmitter } from 'stream';
+import Sim800L, { ModemResponse, sneakyDelivery } from '..';
+import { InitializeStatus } from '../models/types/ModemResponse';
+import { createModem, createReadyModem, release, waitFor } from './helpers';
+
+describe('initialize', () => {
+  let modem: Sim800L;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('configures the modem and emits initialized', async () => {
+    const created = createModem();
+    modem = created.modem;
+    const initialized = new Promise((resolve) => modem.once('initialized', resolve));
+    await expect(initialized).resolves.toMatchObject({ imei: '864000000000001' });
+    expect(modem.isInitialized).toBe(true);
+    expect(created.simulator.commands).toEqual(
+      expect.arrayContaining(['AT+CMEE=2', 'AT+CPIN?', 'AT+CNMI=2,1,2,1,0', 'AT+CMGF=0', 'AT+CLIP=1', 'AT+CLCC=1']),
+    );
+  });
+
+  it('unlocks the SIM with the configured pin', async () => {
+    const created = createModem({ pin: '1234' }, { pin: '1234' });
+    modem = created.modem;
+    await waitFor(() => modem.isInitialized);
+    expect(modem.isSimUnlocked).toBe(true);
+    expect(created.simulator.commands).toContain('AT+CPIN=1234');
+  });
+
+  it('gives up and never sends a rejected pin again', async () => {
+    const created = createModem({ pin: '1234' }, { pin: '0000' });
+    modem = created.modem;
+    const failure = await new Promise<ModemResponse>((resolve) =>
+      modem.on('error', (error) => resolve(error as ModemResponse)),
+    );
+    expect(failure.error?.content.status).toBe(InitializeStatus.PIN_INCORRECT);
+    expect(modem.isInitialized).toBe(false);
+    await modem.initialize(null, {});
+    expect(created.simulator.commands.filter((command) => command === 'AT+CPIN=0000')).toHaveLength(1);
+  });
+});
+
+describe('job queue', () => {
+  let modem: Sim800L;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('sends one command at a time, in order, and resolves each with its own answer', async () => {
+    const created = await createReadyModem({ chunkSize: [3, 7, 1] });
+    modem = created.modem;
+    ['A', 'B', 'C'].forEach((name) =>
+      created.simulator.setResponse(`AT+TEST${name}`, `\r\n+TEST: ${name}\r\n\r\nOK\r\n`),
+    );
+    const start = created.simulator.commands.length;
+    const responses = await Promise.all(
+      ['A', 'B', 'C'].map((name) => modem.execCommand(null, { command: `AT+TEST${name}`, type: `test-${name}` })),
+    );
+    expect(created.simulator.commands.slice(start).filter((command) => command.startsWith('AT+TEST'))).toEqual([
+      'AT+TESTA',
+      'AT+TESTB',
+      'AT+TESTC',
+    ]);
+    responses.forEach((response, index) => {
+      const name = ['A', 'B', 'C'][index];
+      expect(response.result).toBe('success');
+      expect(response.type).toBe(`test-${name}`);
+      expect(response.data?.raw).toContain(`+TEST: ${name}`);
+    });
+  });
+
+  it('fails a job the modem never answers and moves on to the next one', async () => {
+    const created = await createReadyModem();
+    modem = created.modem;
+    created.simulator.setResponse('AT+SILENT', '');
+    const silent = modem.execCommand(null, { command: 'AT+SILENT', type: 'silent', timeout: 300 });
+    const next = modem.execCommand(null, { command: 'AT', type: 'check' });
+    await expect(silent).resolves.toMatchObject({ result: 'failure', error: { type: 'unhandled' } });
+    await expect(next).resolves.toMatchObject({ result: 'success', type: 'check' });
+  });
+
+  it('fails the command of a modem error with the error details', async () => {
+    const created = await createReadyModem();
+    modem = created.modem;
+    created.simulator.injectError('AT+CSQ', { type: 'CME', code: 10, message: 'SIM not inserted' });
+    const response = await modem.execCommand(null, { command: 'AT+CSQ', type: 'signal' });
+    expect(response.result).toBe('failure');
+    expect(response.error?.modemError).toMatchObject({ type: 'CME', code: 10 });
+  });
+});
+
+describe('sneakyDelivery', () => {
+  let emitter: EventEmitter;
+  let events: { event: string; payload: any }[];
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+    events = [];
+    ['newsms', 'directsms', 'deliveryreport', 'urc'].forEach((event) =>
+      emitter.on(event, (payload) => events.push({ event, payload })),
+    );
+  });
+
+  it('emits the +CMTI notifications found in another job buffer', () => {
+    sneakyDelivery('AT+CSQ\r\r\n+CMTI: "SM",3\r\n+CSQ: 20,0\r\n', emitter as any);
+    expect(events).toEqual([{ event: 'newsms', payload: { storage: 'SM', index: 3 } }]);
+  });
+
+  it('waits for the +CMTI line to be complete', () => {
+    sneakyDelivery('AT+CSQ\r\r\n+CMTI: "SM",1', emitter as any);
+    expect(events).toEqual([]);
+    sneakyDelivery('AT+CSQ\r\r\n+CMTI: "SM",12\r\n', emitter as any);
+    expect(events).toEqual([{ event: 'newsms', payload: { storage: 'SM', index: 12 } }]);
+  });
+
+  it('emits a delivery report once its PDU line is terminated', () => {
+    const pdu = '0006190B913306000000F0421050315310804210503153108000';
+    sneakyDelivery(`\r\n+CDS: 26\r\n${pdu}`, emitter as any);
+    expect(events).toEqual([]);
+    sneakyDelivery(`\r\n+CDS: 26\r\n${pdu}\r\n`, emitter as any);
+    expect(events).toEqual([{ event: 'deliveryreport', payload: { shortId: 26, data: pdu } }]);
+  });
+
+  it('emits the direct messages once their PDU line is terminated', () => {
+    sneakyDelivery('\r\n+CMT: ,24\r\n0791', emitter as any);
+    expect(events).toEqual([]);
+    sneakyDelivery('\r\n+CMT: ,24\r\n07913306\r\n', emitter as any);
+    expect(events).toEqual([{ event: 'directsms', payload: { length: 24, data: '07913306' } }]);
+  });
+
+  it('emits the URCs with their position in the buffer', () => {
+    sneakyDelivery('AT\r\r\nRING\r\n\r\nOK\r\n\r\nRING\r\n', emitter as any);
+    expect(events).toEqual([
+      { event: 'urc', payload: { line: 'RING', position: 5 } },
+      { event: 'urc', payload: { line: 'RING', position: 19 } },
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { OperatorSelectionMode, Sim800LSimulator } from '..';
+import { createReadyModem, release } from './helpers';
+
+describe('operator selection', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('selects an operator by its numeric id or its name', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await expect(
+      modem.selectOperator(null, { mode: OperatorSelectionMode.MANUAL, id: '20810' }),
+    ).resolves.toMatchObject({ result: 'success' });
+    await expect(
+      modem.selectOperator(null, { mode: OperatorSelectionMode.MANUAL_AUTOMATIC, id: 'Orange F' }),
+    ).resolves.toMatchObject({ result: 'success' });
+    expect(simulator.commands).toEqual(expect.arrayContaining(['AT+COPS=1,2,"20810"', 'AT+COPS=4,0,"Orange F"']));
+  });
+
+  it('rejects the ids that are neither an MCC+MNC nor a name', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const start = simulator.commands.length;
+    for (const id of [undefined, '2081', '2080100', 'Orange"\r\nAT+CPOWD=1', 'Orange\nF']) {
+      await expect(modem.selectOperator(null, { mode: OperatorSelectionMode.MANUAL, id })).resolves.toMatchObject({
+        result: 'failure',
+        error: { type: 'invalid-parameter' },
+      });
+    }
+    expect(simulator.commands.slice(start).some((command) => command.startsWith('AT+COPS='))).toBe(false);
+  });
+});
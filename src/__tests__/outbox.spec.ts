@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Sim800L, { JsonFileOutboxStore, OutboxStore, Sim800LSimulator, Sms } from '..';
+import { SerializedSms, SmsStatus } from '../models/types/Sms';
+import { createReadyModem, release, waitFor } from './helpers';
+
+class MemoryOutboxStore implements OutboxStore {
+  public records = new Map<string, SerializedSms>();
+
+  public load = async () => [...this.records.values()];
+  public save = async (sms: SerializedSms) => {
+    this.records.set(sms.id, JSON.parse(JSON.stringify(sms)));
+  };
+  public remove = async (id: string) => {
+    this.records.delete(id);
+  };
+}
+
+const nextDequeued = (modem: Sim800L) => new Promise<Sms>((resolve) => modem.once('dequeued', resolve));
+
+describe('outbox store', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('keeps an Sms until it is delivered', async () => {
+    const outboxStore = new MemoryOutboxStore();
+    ({ modem, simulator } = await createReadyModem({ deliveryReportDelay: 60000 }, { outboxStore }));
+    const sms = modem.createSms('+33600000000', 'hello', { autoSend: true });
+    await waitFor(() => sms.status === SmsStatus.SENT);
+    await waitFor(() => outboxStore.records.get(sms.id)?.parts[0].status === SmsStatus.SENT);
+    simulator.sendDeliveryReport(sms.toJSON().parts[0].shortId);
+    await waitFor(() => !outboxStore.records.has(sms.id));
+    expect(sms.status).toBe(SmsStatus.DELIVERED);
+  });
+
+  it('sends the unsent messages restored on startup', async () => {
+    const outboxStore = new MemoryOutboxStore();
+    ({ modem } = await createReadyModem({}, { outboxStore }));
+    const sendAt = new Date(Date.now() + 1500);
+    const unsent = modem.createSms('+33600000000', 'restored', { autoSend: true, priority: 2, sendAt });
+    await release(modem);
+    const stored = outboxStore.records.get(unsent.id);
+    expect(stored).toMatchObject({ sendFlag: true, priority: 2, parts: [{ status: SmsStatus.IDLE }] });
+
+    ({ modem, simulator } = await createReadyModem({}, { outboxStore }));
+    const restored = await nextDequeued(modem);
+    expect(restored.id).toBe(unsent.id);
+    expect(restored.text).toBe('restored');
+    expect(Date.now()).toBeGreaterThanOrEqual(sendAt.getTime());
+    await waitFor(() => simulator.commands.some((command) => command.startsWith('AT+CMGS=')));
+  });
+
+  it('matches the late delivery report of a restored message', async () => {
+    const outboxStore = new MemoryOutboxStore();
+    ({ modem } = await createReadyModem({ deliveryReportDelay: 60000 }, { outboxStore }));
+    const sent = modem.createSms('+33600000000', 'sent', { autoSend: true });
+    await waitFor(() => outboxStore.records.get(sent.id)?.parts[0].status === SmsStatus.SENT);
+    await release(modem);
+
+    ({ modem, simulator } = await createReadyModem({}, { outboxStore }));
+    await waitFor(() => modem.isInitialized);
+    simulator.sendDeliveryReport(outboxStore.records.get(sent.id)!.parts[0].shortId);
+    await waitFor(() => !outboxStore.records.has(sent.id));
+    expect(simulator.commands.some((command) => command.startsWith('AT+CMGS='))).toBe(false);
+  });
+
+  it('re-arms the retry a message was waiting for', async () => {
+    const outboxStore = new MemoryOutboxStore();
+    ({ modem, simulator } = await createReadyModem({}, { outboxStore }));
+    simulator.injectError(/^AT\+CMGS=/, { type: 'CMS', code: 42, message: 'congestion' });
+    const failed = modem.createSms('+33600000000', 'retry me', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 2, backoff: 60000 },
+    });
+    await new Promise((resolve) => failed.once('retry', resolve));
+    await waitFor(() => outboxStore.records.get(failed.id)?.parts[0].status === SmsStatus.ERROR);
+    const part = outboxStore.records.get(failed.id)!.parts[0];
+    expect(part.attempts).toBe(1);
+    expect(new Date(part.retryAt!).getTime()).toBeGreaterThan(Date.now());
+    await release(modem);
+
+    part.retryAt = new Date(Date.now() + 500).toISOString();
+    ({ modem, simulator } = await createReadyModem({}, { outboxStore }));
+    const restored = await nextDequeued(modem);
+    expect(restored.id).toBe(failed.id);
+    await waitFor(() => restored.status === SmsStatus.DELIVERED || restored.status === SmsStatus.SENT);
+    expect(restored.toJSON().parts[0]).toMatchObject({ attempts: 2 });
+    expect(restored.toJSON().parts[0].retryAt).toBeUndefined();
+  });
+});
+
+describe('JsonFileOutboxStore', () => {
+  let directory: string;
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('saves, loads and removes the serialized messages', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'outbox-'));
+    const store = new JsonFileOutboxStore(join(directory, 'outbox.json'));
+    await expect(store.load()).resolves.toEqual([]);
+    const sms = { id: 'a', text: 'hello', parts: [] } as unknown as SerializedSms;
+    await Promise.all([store.save(sms), store.save({ ...sms, id: 'b' })]);
+    await expect(store.load()).resolves.toHaveLength(2);
+    await store.remove('a');
+    await expect(store.load()).resolves.toEqual([{ ...sms, id: 'b' }]);
+    await expect(new JsonFileOutboxStore(join(directory, 'outbox.json')).load()).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  AccessTechnology,
+  ChargeState,
+  OperatorStatus,
+  formatClock,
+  getCellInfo,
+  getClock,
+  getGsmLocation,
+  getNetworkOperators,
+  getOperatorInfo,
+  getPhonebookEntries,
+  getPowerSupply,
+  getSignalQuality,
+  getTimeUpdate,
+} from '..';
+
+describe('getOperatorInfo', () => {
+  it('parses a numeric operator', () => {
+    expect(getOperatorInfo('+COPS: 0,2,"20801"')).toEqual({ mode: 0, numeric: '20801', mcc: 208, mnc: 1 });
+  });
+
+  it('parses an operator name and its access technology', () => {
+    expect(getOperatorInfo('+COPS: 1,0,"Orange F",0')).toEqual({
+      mode: 1,
+      name: 'Orange F',
+      accessTechnology: AccessTechnology.GSM,
+    });
+  });
+
+  it('parses the selection mode alone when not registered', () => {
+    expect(getOperatorInfo('+COPS: 0')).toEqual({ mode: 0 });
+  });
+});
+
+describe('getNetworkOperators', () => {
+  it('parses every operator of the list and leaves the supported modes out', () => {
+    expect(
+      getNetworkOperators(
+        '+COPS: (2,"Orange F","Orange","20801"),(3,"F-Bouygues Telecom","BYTEL","20820",0),,(0-4),(0-2)',
+      ),
+    ).toEqual([
+      { status: OperatorStatus.CURRENT, longName: 'Orange F', shortName: 'Orange', numeric: '20801', mcc: 208, mnc: 1 },
+      {
+        status: OperatorStatus.FORBIDDEN,
+        longName: 'F-Bouygues Telecom',
+        shortName: 'BYTEL',
+        numeric: '20820',
+        mcc: 208,
+        mnc: 20,
+        accessTechnology: AccessTechnology.GSM,
+      },
+    ]);
+  });
+
+  it('returns an empty list when no operator is found', () => {
+    expect(getNetworkOperators('+COPS: ,,(0-4),(0-2)')).toEqual([]);
+  });
+});
+
+describe('getSignalQuality', () => {
+  it('converts the rssi to dBm and bars', () => {
+    expect(getSignalQuality('+CSQ: 18,0')).toEqual({ rssi: 18, dbm: -77, bars: 3, ber: 0 });
+  });
+
+  it('maps the rssi boundaries to bars', () => {
+    expect([0, 1, 2, 9, 10, 14, 15, 19, 20, 31].map((rssi) => getSignalQuality(`+CSQ: ${rssi},0`).bars)).toEqual([
+      0, 0, 1, 1, 2, 2, 3, 3, 4, 4,
+    ]);
+  });
+
+  it('leaves the unknown values undefined', () => {
+    const quality = getSignalQuality('+CSQ: 99,99');
+    expect(quality).toEqual({ rssi: 99, bars: 0 });
+    expect(quality.dbm).toBeUndefined();
+    expect(quality.ber).toBeUndefined();
+  });
+});
+
+describe('getCellInfo', () => {
+  it('parses the serving and neighbour cells, the empty slots are left out', () => {
+    expect(
+      getCellInfo([
+        'AT+CENG?',
+        '+CENG: 1,1',
+        '+CENG: 0,"0017,38,00,208,01,53,a1b2,05,00,0c3d,255"',
+        '+CENG: 1,"0024,25,41,1f2e,208,01,0c3d"',
+        '+CENG: 2,"0000,00,00,ffff,000,00,0000"',
+        'OK',
+      ]),
+    ).toEqual({
+      serving: {
+        arfcn: 17,
+        rxLevel: 38,
+        dbm: -72,
+        mcc: 208,
+        mnc: 1,
+        lac: 0x0c3d,
+        cellId: 0xa1b2,
+        bsic: 53,
+        rxQuality: 0,
+        timingAdvance: 255,
+      },
+      neighbours: [{ arfcn: 24, rxLevel: 25, dbm: -85, mcc: 208, mnc: 1, lac: 0x0c3d, cellId: 0x1f2e, bsic: 41 }],
+    });
+  });
+
+  it('has no serving cell when not camping on any cell', () => {
+    expect(getCellInfo(['+CENG: 0,"0000,00,00,000,00,00,ffff,00,00,0000,0"', 'OK'])).toEqual({ neighbours: [] });
+  });
+});
+
+describe('getGsmLocation', () => {
+  it('parses the location and its UTC date', () => {
+    expect(getGsmLocation('+CIPGSMLOC: 0,2.294481,48.858370,2024/05/17,10:22:31')).toEqual({
+      latitude: 48.85837,
+      longitude: 2.294481,
+      date: new Date('2024-05-17T10:22:31Z'),
+    });
+  });
+
+  it('returns undefined for an error code', () => {
+    expect(getGsmLocation('+CIPGSMLOC: 601')).toBeUndefined();
+  });
+});
+
+describe('getPhonebookEntries', () => {
+  it('parses the entries, quoted commas included', () => {
+    expect(
+      getPhonebookEntries(
+        ['AT+CPBR=1,2', '+CPBR: 1,"+33612345678",145,"Alice"', '+CPBR: 2,"0612345678",129,"Doe, John"', 'OK'],
+        '+CPBR: ',
+      ),
+    ).toEqual([
+      { index: 1, number: '+33612345678', type: 145, name: 'Alice' },
+      { index: 2, number: '0612345678', type: 129, name: 'Doe, John' },
+    ]);
+  });
+
+  it('decodes the UCS2 numbers and names', () => {
+    expect(getPhonebookEntries(['+CPBF: 3,"002B003300360031",145,"005A006F00E9"'], '+CPBF: ', 'UCS2')).toEqual([
+      { index: 3, number: '+361', type: 145, name: 'Zoé' },
+    ]);
+  });
+});
+
+describe('getClock and formatClock', () => {
+  it('converts the modem local time to UTC', () => {
+    expect(getClock('+CCLK: "24/05/12,12:30:15+08"')).toEqual(new Date('2024-05-12T10:30:15Z'));
+    expect(getClock('+CCLK: "24/05/12,12:30:15-04"')).toEqual(new Date('2024-05-12T13:30:15Z'));
+  });
+
+  it('returns undefined for an unparsable clock', () => {
+    expect(getClock('+CCLK: "not a clock"')).toBeUndefined();
+  });
+
+  it('formats a date in local time followed by the timezone in quarters of an hour', () => {
+    const date = new Date('2024-05-12T10:30:15Z');
+    expect(formatClock(date, 120)).toBe('24/05/12,12:30:15+08');
+    expect(formatClock(date, -60)).toBe('24/05/12,09:30:15-04');
+    expect(formatClock(date, 0)).toBe('24/05/12,10:30:15+00');
+  });
+
+  it('reads back the dates it formats', () => {
+    const date = new Date('2024-12-31T22:45:00Z');
+    expect(getClock(`+CCLK: "${formatClock(date, 330)}"`)).toEqual(date);
+  });
+});
+
+describe('getTimeUpdate', () => {
+  it('parses the network time of *PSUTTZ', () => {
+    expect(getTimeUpdate('*PSUTTZ: 2024,5,12,10,30,15,"+8",1')).toEqual({
+      date: new Date('2024-05-12T10:30:15Z'),
+      timezone: 120,
+      dst: 1,
+    });
+    expect(getTimeUpdate('*PSUTTZ: 24,5,12,10,30,15,"-4",0')).toEqual({
+      date: new Date('2024-05-12T10:30:15Z'),
+      timezone: -60,
+      dst: 0,
+    });
+  });
+
+  it('parses the timezone of +CTZV and the adjustment of DST', () => {
+    expect(getTimeUpdate('+CTZV: +8,1')).toEqual({ timezone: 120, dst: 1 });
+    expect(getTimeUpdate('DST: 1')).toEqual({ dst: 1 });
+  });
+});
+
+describe('getPowerSupply', () => {
+  it('parses the charge state, level and voltage', () => {
+    expect(getPowerSupply('+CBC: 1,85,4012')).toEqual({
+      chargeState: ChargeState.CHARGING,
+      percent: 85,
+      millivolts: 4012,
+    });
+  });
+
+  it('returns undefined for an incomplete line', () => {
+    expect(getPowerSupply('+CBC: 0,85')).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator } from '..';
+import { createReadyModem, release } from './helpers';
+
+describe('phonebook', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('writes, reads and finds the entries, whatever their encoding', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await expect(modem.writePhonebookEntry(null, { number: '+33600000000', name: 'Alice' })).resolves.toMatchObject({
+      result: 'success',
+    });
+    await expect(modem.writePhonebookEntry(null, { number: '0611111111', name: 'Amélie' })).resolves.toMatchObject({
+      result: 'success',
+    });
+    expect(simulator.commands).toContain('AT+CPBW=,"+33600000000",145,"Alice"');
+    const entries = await modem.readPhonebook(null, { start: 1, end: 10 });
+    expect(entries.data?.processed).toEqual([
+      { index: 1, number: '+33600000000', type: 145, name: 'Alice' },
+      { index: 2, number: '0611111111', type: 129, name: 'Amélie' },
+    ]);
+    const found = await modem.findPhonebookEntries(null, { name: 'Am' });
+    expect(found.data?.processed.map((entry) => entry.name)).toEqual(['Amélie']);
+  });
+
+  it('writes a name holding a double quote in UCS2', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await modem.writePhonebookEntry(null, { number: '0600000000', name: 'Bob "the builder"' });
+    expect(simulator.commands).toContain('AT+CSCS="UCS2"');
+    const entries = await modem.readPhonebook(null, { start: 1 });
+    expect(entries.data?.processed[0].name).toBe('Bob "the builder"');
+  });
+
+  it('rejects the numbers and IRA texts that would end the command', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const start = simulator.commands.length;
+    const failures = [
+      modem.writePhonebookEntry(null, { number: '0600000000",129,"x"\r\nAT+CPOWD=1\r\n', name: 'Eve' }),
+      modem.writePhonebookEntry(null, { number: '0600000000', name: 'Eve"', encoding: 'IRA' }),
+      modem.writePhonebookEntry(null, { number: '0600000000', name: 'Eve\r\nAT+CPOWD=1', encoding: 'IRA' }),
+      modem.findPhonebookEntries(null, { name: 'Eve"\r\nAT+CPOWD=1\r\n', encoding: 'IRA' }),
+    ];
+    for (const failure of failures) {
+      await expect(failure).resolves.toMatchObject({ result: 'failure', error: { type: 'invalid-parameter' } });
+    }
+    expect(simulator.commands.slice(start).some((command) => command.startsWith('AT+CPB'))).toBe(false);
+  });
+});
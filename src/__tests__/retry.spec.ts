@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import Sim800L, { Sim800LSimulator, SmsFailure, SmsRetryEvent } from '..';
+import { SmsStatus } from '../models/types/Sms';
+import { createReadyModem, release, waitFor } from './helpers';
+
+const isSent = (status: SmsStatus) => status === SmsStatus.SENT || status === SmsStatus.DELIVERED;
+
+describe('Sms retries', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('sends a part again after a temporary failure, with an exponential backoff', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError(/^AT\+CMGS=/, { type: 'CMS', code: 42, message: 'congestion' }, 2);
+    const sms = modem.createSms('+33600000000', 'hello', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 3, backoff: 100, backoffFactor: 2 },
+    });
+    const retries: SmsRetryEvent[] = [];
+    const attempts: number[] = [];
+    sms.on('retry', (event) => retries.push(event));
+    sms.on('attempt', (event) => attempts.push(event.attempt));
+    await waitFor(() => isSent(sms.status));
+    expect(retries.map((event) => event.delay)).toEqual([100, 200]);
+    expect(retries.every((event) => event.modemError?.code === 42)).toBe(true);
+    expect(attempts).toEqual([1, 2, 3]);
+  });
+
+  it('caps the backoff at maxBackoff', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError(/^AT\+CMGS=/, { type: 'CMS', code: 42, message: 'congestion' }, 2);
+    const sms = modem.createSms('+33600000000', 'hello', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 3, backoff: 100, backoffFactor: 4, maxBackoff: 150 },
+    });
+    const delays: number[] = [];
+    sms.on('retry', (event) => delays.push(event.delay));
+    await waitFor(() => isSent(sms.status));
+    expect(delays).toEqual([100, 150]);
+  });
+
+  it('gives up at once on a permanent failure', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError(/^AT\+CMGS=/, { type: 'CMS', code: 304, message: 'invalid PDU mode parameter' });
+    const sms = modem.createSms('+33600000000', 'hello', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 3, backoff: 100 },
+    });
+    const retry = jest.fn();
+    sms.on('retry', retry);
+    const failure = await new Promise<SmsFailure>((resolve) => sms.on('giveup', resolve));
+    expect(failure).toMatchObject({ attempt: 1, timeout: false });
+    expect(sms.status).toBe(SmsStatus.ERROR);
+    expect(retry).not.toHaveBeenCalled();
+  });
+
+  it('gives up once maxAttempts is reached', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError(/^AT\+CMGS=/, { type: 'CMS', code: 42, message: 'congestion' }, 5);
+    const sms = modem.createSms('+33600000000', 'hello', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 2, backoff: 50 },
+    });
+    const failure = await new Promise<SmsFailure>((resolve) => sms.on('giveup', resolve));
+    expect(failure.attempt).toBe(2);
+    expect(sms.status).toBe(SmsStatus.ERROR);
+    expect(sms.isRetrying).toBe(false);
+  });
+
+  it('routes a transport write failure through the retry policy', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const write = simulator.write;
+    let failures = 1;
+    simulator.write = (data, callback) => {
+      if (failures && data.toString().startsWith('AT+CMGS=')) {
+        failures -= 1;
+        if (callback) callback(new Error('EIO'));
+        return;
+      }
+      write(data, callback);
+    };
+    const sms = modem.createSms('+33600000000', 'hello', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 2, backoff: 50, retryable: () => true },
+    });
+    const retries: SmsRetryEvent[] = [];
+    sms.on('retry', (event) => retries.push(event));
+    await waitFor(() => isSent(sms.status));
+    expect(retries).toHaveLength(1);
+    expect(retries[0]).toMatchObject({ attempt: 1, timeout: false, error: 'EIO' });
+  });
+});
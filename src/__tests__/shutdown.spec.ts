@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import Sim800L, { ShutdownResult, Sim800LSimulator } from '..';
+import { SmsStatus } from '../models/types/Sms';
+import { createReadyModem, release } from './helpers';
+
+describe('shutdown', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('sends the outbox before shutting down', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const sms = modem.createSms('+33600000000', 'last words', { autoSend: true });
+    const emitted = new Promise<ShutdownResult>((resolve) => modem.once('shutdown', resolve));
+    const response = await modem.shutdown(null, {});
+    expect(response.data?.processed).toEqual({ drained: true, poweredOff: false });
+    await expect(emitted).resolves.toEqual({ drained: true, poweredOff: false });
+    expect([SmsStatus.SENT, SmsStatus.DELIVERED]).toContain(sms.status);
+    expect(simulator.isOpen).toBe(false);
+  });
+
+  it('fails the pending jobs and refuses the new ones without draining', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.setResponse('AT+SLOW', '');
+    const pending = modem.execCommand(null, { command: 'AT+SLOW', type: 'slow', timeout: 10000 });
+    const queued = modem.execCommand(null, { command: 'AT', type: 'check' });
+    await modem.shutdown(null, { drain: false });
+    await expect(pending).resolves.toMatchObject({ result: 'failure', error: { type: 'shutdown' } });
+    await expect(queued).resolves.toMatchObject({ result: 'failure', error: { type: 'shutdown' } });
+    await expect(modem.execCommand(null, { command: 'AT', type: 'check' })).resolves.toMatchObject({
+      result: 'failure',
+    });
+    await expect(modem.shutdown(null, {})).resolves.toMatchObject({ result: 'failure' });
+  });
+
+  it('powers the modem off on demand', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const response = await modem.shutdown(null, { powerOff: true });
+    expect(response.data?.processed.poweredOff).toBe(true);
+    expect(simulator.commands).toContain('AT+CPOWD=1');
+  });
+
+  it('removes its own listeners and leaves the ones of the consumer', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const onSms = jest.fn();
+    modem.on('sms', onSms);
+    await modem.shutdown(null, { drain: false });
+    expect(modem.listeners('sms')).toEqual([onSms]);
+    (['network', 'signal', 'brownout', 'directsms', 'newsms', 'urc'] as const).forEach((event) =>
+      expect(modem.listenerCount(event)).toBe(0),
+    );
+  });
+
+  it('disposes of the live messages', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.injectError(/^AT\+CMGS=/, { type: 'CMS', code: 42, message: 'congestion' });
+    const sms = modem.createSms('+33600000000', 'retry me', {
+      autoSend: true,
+      retryPolicy: { maxAttempts: 3, backoff: 60000 },
+    });
+    await new Promise((resolve) => sms.once('retry', resolve));
+    expect(sms.isRetrying).toBe(true);
+    await modem.shutdown(null, { drain: false });
+    expect(sms.isRetrying).toBe(false);
+    expect(modem.listenerCount('deliveryreport')).toBe(0);
+    expect(modem.outbox).toEqual([]);
+  });
+});
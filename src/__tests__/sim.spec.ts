@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { ModemResponse, Sim800LSimulator } from '..';
+import { createModem, createReadyModem, release, waitFor } from './helpers';
+
+describe('SIM security', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  const lockedModem = async () => {
+    ({ modem, simulator } = createModem({ pin: '1234' }));
+    await new Promise((resolve) => modem.once('error', resolve));
+    expect(modem.isInitialized).toBe(false);
+  };
+  const blockPin = async () => {
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      await expect(modem.unlockSim(null, { pin: '0000' })).resolves.toMatchObject({ result: 'failure' });
+    }
+    await expect(modem.getPinAttemptsRemaining(null, {})).resolves.toMatchObject({
+      data: { processed: { pin: 0, puk: 10 } },
+    });
+  };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('unblocks the SIM with the PUK and a new pin', async () => {
+    await lockedModem();
+    await blockPin();
+    await expect(modem.unlockWithPuk(null, { puk: '12345678', pin: '4321' })).resolves.toMatchObject({
+      result: 'success',
+    });
+    await expect(modem.checkPinRequired(null, {})).resolves.toMatchObject({ result: 'success' });
+  });
+
+  it('recovers a blocked SIM with the configured PUK on initialize', async () => {
+    await lockedModem();
+    await blockPin();
+    modem.simConfig.pin = '4321';
+    modem.simConfig.puk = '12345678';
+    await expect(modem.initialize(null, {})).resolves.toMatchObject({ result: 'success' });
+    expect(simulator.commands).toContain('AT+CPIN="12345678","4321"');
+    await waitFor(() => modem.isInitialized);
+  });
+
+  it('never sends a rejected PUK again', async () => {
+    await lockedModem();
+    await blockPin();
+    modem.simConfig.pin = '4321';
+    modem.simConfig.puk = '87654321';
+    const failure = (await modem.initialize(null, {})) as ModemResponse;
+    expect(failure.result).toBe('failure');
+    await modem.initialize(null, {});
+    expect(simulator.commands.filter((command) => command === 'AT+CPIN="87654321","4321"')).toHaveLength(1);
+  });
+
+  it('changes the pin, then disables the pin request', async () => {
+    ({ modem, simulator } = await createReadyModem({ pin: '1234' }, { pin: '1234' }));
+    await expect(modem.changePin(null, { pin: '1234', newPin: '98765' })).resolves.toMatchObject({
+      result: 'success',
+    });
+    await expect(modem.setPinLock(null, { enabled: false, pin: '1234' })).resolves.toMatchObject({
+      result: 'failure',
+    });
+    await expect(modem.setPinLock(null, { enabled: false, pin: '98765' })).resolves.toMatchObject({
+      result: 'success',
+    });
+  });
+
+  it('rejects the codes that are not made of the expected digits', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const start = simulator.commands.length;
+    const failures = [
+      modem.unlockSim(null, { pin: '12' }),
+      modem.unlockWithPuk(null, { puk: '1234567', pin: '1234' }),
+      modem.unlockWithPuk(null, { puk: '12345678","0000"\r\nAT+CPOWD=1\r\n', pin: '1234' }),
+      modem.unlockWithPuk(null, { puk: '12345678', pin: '123456789' }),
+      modem.changePin(null, { pin: '1234', newPin: '12a4' }),
+      modem.changePin(null, { pin: '1234"', newPin: '4321' }),
+      modem.setPinLock(null, { enabled: true, pin: '1234\r\nAT+CPOWD=1' }),
+    ];
+    for (const failure of failures) {
+      await expect(failure).resolves.toMatchObject({ result: 'failure', error: { type: 'invalid-parameter' } });
+    }
+    const sent = simulator.commands.slice(start);
+    expect(sent.some((command) => /^AT\+(CPIN=|CPWD|CLCK)/.test(command))).toBe(false);
+  });
+});
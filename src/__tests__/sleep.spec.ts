@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator, SleepMode } from '..';
+import { createReadyModem, release, waitFor } from './helpers';
+
+describe('sleep modes', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('releases DTR to sleep and asserts it to send a command', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const lines: boolean[] = [];
+    simulator.on('dtr', (dtr: boolean) => lines.push(dtr));
+    await expect(modem.setSleepMode(null, { mode: SleepMode.DTR })).resolves.toMatchObject({ result: 'success' });
+    expect(simulator.isSleeping).toBe(true);
+    expect(modem.isSleeping).toBe(true);
+    await expect(modem.execCommand(null, { command: 'AT', type: 'check' })).resolves.toMatchObject({
+      result: 'success',
+    });
+    expect(lines).toEqual([false, true]);
+    // the modem is left awake a little while after the last job
+    await waitFor(() => simulator.isSleeping, 3000);
+    expect(lines).toEqual([false, true, false]);
+  });
+
+  it('wakes the modem up with a throwaway character in AUTO mode', async () => {
+    ({ modem, simulator } = await createReadyModem({ sleepDelay: 300 }));
+    await expect(modem.setSleepMode(null, { mode: SleepMode.AUTO })).resolves.toMatchObject({ result: 'success' });
+    await waitFor(() => modem.isSleeping && simulator.isSleeping, 3000);
+    const response = await modem.execCommand(null, { command: 'AT+CSQ', type: 'signal' });
+    expect(response.result).toBe('success');
+    expect(simulator.commands[simulator.commands.length - 1]).toBe('AT+CSQ');
+  });
+
+  it('stays awake once the sleep mode is disabled', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    await modem.setSleepMode(null, { mode: SleepMode.DTR });
+    await expect(modem.setSleepMode(null, { mode: SleepMode.DISABLED })).resolves.toMatchObject({
+      result: 'success',
+    });
+    expect(modem.isSleeping).toBe(false);
+    expect(simulator.commands).toContain('AT+CSCLK=0');
+  });
+
+  it('refuses the DTR mode when the transport can not drive the line', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    (simulator as { set?: unknown }).set = undefined;
+    await expect(modem.setSleepMode(null, { mode: SleepMode.DTR })).resolves.toMatchObject({
+      result: 'failure',
+      error: { type: 'sleep' },
+    });
+    expect(simulator.commands).not.toContain('AT+CSCLK=1');
+  });
+});
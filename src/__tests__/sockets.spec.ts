@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { IpDataDemultiplexer, ModemSocket, Sim800LSimulator } from '..';
+import { createReadyModem, release, waitFor } from './helpers';
+
+describe('sockets', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  const config = { gprs: { apn: 'internet' } };
+
+  const open = async (host = 'example.com', port = 8080) => {
+    const response = await modem.openSocket(null, { host, port });
+    expect(response.result).toBe('success');
+    return response.data!.processed;
+  };
+  const collect = (socket: ModemSocket) => {
+    const chunks: Buffer[] = [];
+    socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+    return () => Buffer.concat(chunks);
+  };
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('brings the IP stack up, then writes and reads on the connection', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const socket = await open();
+    expect(simulator.commands).toContain('AT+CIPSTART=0,"TCP","example.com","8080"');
+    const written = new Promise<Buffer>((resolve) => simulator.once('socketdata', (link, data) => resolve(data)));
+    socket.write('ping\r\n');
+    await expect(written).resolves.toEqual(Buffer.from('ping\r\n'));
+    const received = collect(socket);
+    simulator.receiveSocketData(0, 'pong');
+    await waitFor(() => received().toString() === 'pong');
+  });
+
+  it('keeps the payloads away from the commands, whatever they hold', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const socket = await open();
+    const received = collect(socket);
+    const payload = Buffer.from('\r\nERROR\r\n\r\n+CMTI: "SM",1\r\n\r\nOK\r\n');
+    simulator.setResponse('AT+CSQ', () => {
+      simulator.receiveSocketData(0, payload);
+      return '\r\n+CSQ: 20,0\r\n\r\nOK\r\n';
+    });
+    await expect(modem.getSignalQuality(null, {})).resolves.toMatchObject({ result: 'success' });
+    await waitFor(() => received().equals(payload));
+    expect(simulator.commands.some((command) => command.startsWith('AT+CMGR='))).toBe(false);
+  });
+
+  it('tells the connections apart', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const first = collect(await open('example.com', 80));
+    const second = collect(await open('10.0.0.1', 8080));
+    simulator.receiveSocketData(1, 'second');
+    simulator.receiveSocketData(0, 'first');
+    await waitFor(() => first().toString() === 'first' && second().toString() === 'second');
+  });
+
+  it('ends the stream once the remote host closes the connection', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const socket = await open();
+    socket.resume();
+    const ended = new Promise((resolve) => socket.once('end', resolve));
+    simulator.closeRemoteSocket(0);
+    await ended;
+    expect(socket.connected).toBe(false);
+  });
+
+  it('closes every connection when the network deactivates the context', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const socket = await open();
+    socket.resume();
+    const ended = new Promise((resolve) => socket.once('end', resolve));
+    simulator.deactivatePdp();
+    await ended;
+    expect(socket.connected).toBe(false);
+  });
+
+  it('fails to connect to an unreachable host', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    simulator.setHostReachable('example.com');
+    await expect(modem.openSocket(null, { host: 'example.com', port: 80 })).resolves.toMatchObject({
+      result: 'failure',
+    });
+  });
+
+  it('rejects the hosts and ports that do not fit the command', async () => {
+    ({ modem, simulator } = await createReadyModem({}, config));
+    const invalid = [
+      { host: 'example.com","80"\r\nAT+CPOWD=1\r\n', port: 80 },
+      { host: 'exa mple.com', port: 80 },
+      { host: '-example.com', port: 80 },
+      { host: '', port: 80 },
+      { host: 'example.com', port: 0 },
+      { host: 'example.com', port: 65536 },
+      { host: 'example.com', port: 80.5 },
+      { host: 'example.com', port: '80"\r\nAT+CPOWD=1' as unknown as number },
+    ];
+    for (const params of invalid) {
+      await expect(modem.openSocket(null, params)).resolves.toMatchObject({
+        result: 'failure',
+        error: { type: 'invalid-parameter' },
+      });
+    }
+    expect(simulator.commands.some((command) => command.startsWith('AT+CIP'))).toBe(false);
+  });
+});
+
+describe('IpDataDemultiplexer', () => {
+  const demultiplex = (...chunks: string[]) => {
+    const received: [number, string][] = [];
+    const demultiplexer = new IpDataDemultiplexer((link, data) => received.push([link, data.toString()]));
+    const output = chunks.map((chunk) => demultiplexer.push(Buffer.from(chunk)).toString()).join('');
+    return { output, received };
+  };
+
+  it('removes the payload and its header from the serial data', () => {
+    expect(demultiplex('\r\nOK\r\n\r\n+RECEIVE,2,4:\r\nOK\r\n\r\n+CSQ: 20,0\r\n')).toEqual({
+      output: '\r\nOK\r\n\r\n\r\n+CSQ: 20,0\r\n',
+      received: [[2, 'OK\r\n']],
+    });
+  });
+
+  it('waits for a header split across chunks', () => {
+    expect(demultiplex('\r\n+RECE', 'IVE,0,5', ':\r\nhel', 'lo\r\nOK\r\n')).toEqual({
+      output: '\r\n\r\nOK\r\n',
+      received: [
+        [0, 'hel'],
+        [0, 'lo'],
+      ],
+    });
+  });
+
+  it('reads the single connection header', () => {
+    expect(demultiplex('+IPD,3:abc\r\nOK\r\n')).toEqual({ output: '\r\nOK\r\n', received: [[0, 'abc']] });
+  });
+
+  it('leaves the lines that only look like a header', () => {
+    expect(demultiplex('+RECEIVE,x\r\n')).toEqual({ output: '+RECEIVE,x\r\n', received: [] });
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator, Sms } from '..';
+import { SmsStatus } from '../models/types/Sms';
+import { createReadyModem, release, waitFor } from './helpers';
+
+const isSent = (sms: Sms) => sms.status === SmsStatus.SENT || sms.status === SmsStatus.DELIVERED;
+
+describe('spooler', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('sends the messages by priority, in spooling order within a priority', async () => {
+    ({ modem } = await createReadyModem());
+    const dequeued: string[] = [];
+    modem.on('dequeued', (sms) => dequeued.push(sms.text));
+    const messages = [
+      modem.createSms('+33600000000', 'low', { priority: 0 }),
+      modem.createSms('+33600000000', 'high', { priority: 5 }),
+      modem.createSms('+33600000000', 'medium', { priority: 1 }),
+      modem.createSms('+33600000000', 'high again', { priority: 5 }),
+    ];
+    messages.forEach((sms) => (sms.sendFlag = true));
+    await waitFor(() => messages.every(isSent));
+    expect(dequeued).toEqual(['high', 'high again', 'medium', 'low']);
+  });
+
+  it('waits for sendAt before sending', async () => {
+    ({ modem } = await createReadyModem());
+    const sendAt = new Date(Date.now() + 1500);
+    const sms = modem.createSms('+33600000000', 'later', { autoSend: true, sendAt });
+    const dequeuedAt = new Promise<number>((resolve) => modem.once('dequeued', () => resolve(Date.now())));
+    await expect(dequeuedAt).resolves.toBeGreaterThanOrEqual(sendAt.getTime());
+    await waitFor(() => isSent(sms));
+  });
+
+  it('expires the messages not sent before expiresAt', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const sms = modem.createSms('+33600000000', 'too late', {
+      autoSend: true,
+      sendAt: new Date(Date.now() + 5000),
+      expiresAt: new Date(Date.now() + 600),
+    });
+    await expect(new Promise((resolve) => modem.once('expired', resolve))).resolves.toBe(sms);
+    expect(sms.status).toBe(SmsStatus.EXPIRED);
+    expect(modem.outbox).not.toContain(sms);
+    expect(simulator.commands.some((command) => command.startsWith('AT+CMGS='))).toBe(false);
+  });
+
+  it('holds the messages over the rate limit', async () => {
+    ({ modem } = await createReadyModem({}, { rateLimit: { messagesPerMinute: 2 } }));
+    const messages = ['one', 'two', 'three'].map((text) => modem.createSms('+33600000000', text, { autoSend: true }));
+    await waitFor(() => isSent(messages[0]) && isSent(messages[1]));
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    expect(messages[2].status).toBe(SmsStatus.IDLE);
+    expect(modem.outbox).toContain(messages[2]);
+  });
+
+  it('moves on to the next message when a write fails', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const write = simulator.write;
+    let failures = 1;
+    simulator.write = (data, callback) => {
+      if (failures && data.toString().startsWith('AT+CMGS=')) {
+        failures -= 1;
+        if (callback) callback(new Error('EIO'));
+        return;
+      }
+      write(data, callback);
+    };
+    const failed = modem.createSms('+33600000000', 'first', { autoSend: true });
+    const next = modem.createSms('+33600000000', 'second', { autoSend: true });
+    await waitFor(() => isSent(next));
+    expect(failed.status).toBe(SmsStatus.ERROR);
+  });
+});
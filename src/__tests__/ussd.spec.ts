@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import Sim800L, { Sim800LSimulator, UssdResponse, UssdStatus } from '..';
+import { createReadyModem, release } from './helpers';
+
+describe('USSD', () => {
+  let modem: Sim800L;
+  let simulator: Sim800LSimulator;
+
+  afterEach(async () => {
+    await release(modem);
+  });
+
+  it('sends a code and resolves the network response', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.setUssdResponse('*100#', 'Your balance is 5.00 EUR');
+    await expect(modem.sendUssd(null, { code: '*100#' })).resolves.toMatchObject({
+      result: 'success',
+      data: { processed: { status: UssdStatus.NO_ACTION_REQUIRED, text: 'Your balance is 5.00 EUR' } },
+    });
+    expect(simulator.commands).toContain('AT+CUSD=1,"*100#",15');
+  });
+
+  it('decodes an UCS2 response', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.setUssdResponse('*101#', '0053006F006C006400650020003A00200035002020AC', 0, 72);
+    const response = await modem.sendUssd(null, { code: '*101#' });
+    expect(response.data?.processed.text).toBe('Solde : 5 €');
+  });
+
+  it('answers a menu and closes the session', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    simulator.setUssdResponse('*123#', '1. Balance 2. Options', 1);
+    simulator.setUssdResponse('2', '1. Roaming', 1);
+    const menu = await modem.sendUssd(null, { code: '*123#' });
+    expect(menu.data?.processed.status).toBe(UssdStatus.ACTION_REQUIRED);
+    const options = await modem.replyUssd(null, { text: '2' });
+    expect(options.data?.processed).toMatchObject({ status: UssdStatus.ACTION_REQUIRED, text: '1. Roaming' });
+    await expect(modem.cancelUssd(null, {})).resolves.toMatchObject({ result: 'success' });
+    expect(simulator.commands).toContain('AT+CUSD=2');
+  });
+
+  it('resolves the codes the network does not support', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const response = await modem.sendUssd(null, { code: '*999#' });
+    expect(response.data?.processed.status).toBe(UssdStatus.NOT_SUPPORTED);
+  });
+
+  it('emits the messages initiated by the network', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const message = new Promise<UssdResponse>((resolve) => modem.once('ussd', resolve));
+    simulator.pushUssd('Service message', 1);
+    await expect(message).resolves.toEqual({ status: UssdStatus.ACTION_REQUIRED, text: 'Service message', dcs: 15 });
+  });
+
+  it('rejects the codes and answers that would end the command', async () => {
+    ({ modem, simulator } = await createReadyModem());
+    const start = simulator.commands.length;
+    await expect(modem.sendUssd(null, { code: '*100#",15\r\nAT+CPOWD=1' })).resolves.toMatchObject({
+      result: 'failure',
+      error: { type: 'invalid-parameter' },
+    });
+    await expect(modem.replyUssd(null, { text: '1"' })).resolves.toMatchObject({
+      result: 'failure',
+      error: { type: 'invalid-parameter' },
+    });
+    expect(simulator.commands.slice(start).some((command) => command.startsWith('AT+CUSD'))).toBe(false);
+  });
+});
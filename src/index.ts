@@ -4,42 +4,159 @@
  */
 
 export { Sms } from './models/Sms';
-export { SmsStatusChangeEvent, SmsErrorEvent, DeliveryReportRawObject } from './models/types/Sms';
-export { ModemResponse, CheckNetworkData } from './models/types/ModemResponse';
+export {
+  SmsStatusChangeEvent,
+  SmsErrorEvent,
+  DeliveryReportRawObject,
+  SerializedSms,
+  SerializedRetryPolicy,
+  SmsRetryPolicy,
+  SmsFailure,
+  SmsAttemptEvent,
+  SmsRetryEvent,
+} from './models/types/Sms';
+export {
+  ModemResponse,
+  CheckNetworkData,
+  PinAttempts,
+  ModemInfo,
+  CellData,
+  CellInfoData,
+  GsmLocationData,
+  StorageInfo,
+  StorageUsage,
+  ModemError,
+  ModemErrorCategory,
+} from './models/types/ModemResponse';
+export { cmeErrors, cmsErrors, parseModemError } from './models/ModemErrorCatalogue';
+export { SpoolerRateLimit } from './models/types/SimConfig';
+export { TypedEventEmitter, EventMap, EventListener } from './models/TypedEventEmitter';
+export { Sim800LEvents, SmsEvents, NetworkEvent, Sim800LErrorEvent } from './models/types/Events';
+export { CallDirection, CallState, CallMode, CallInfo, IncomingCall, UrcNotification } from './models/types/Call';
+export { UssdStatus, UssdResponse } from './models/types/Ussd';
+export { HttpMethod, HttpRequestOptions, HttpResponse, HttpActionResult } from './models/types/Http';
+export { GprsConfig } from './models/types/SimConfig';
+export {
+  OperatorSelectionMode,
+  OperatorStatus,
+  AccessTechnology,
+  OperatorInfo,
+  NetworkOperator,
+  OperatorSelection,
+} from './models/types/Operator';
+export { SignalQuality, SignalMonitorConfig } from './models/types/Signal';
+export {
+  ChargeState,
+  SleepMode,
+  SleepConfig,
+  PowerSupply,
+  PowerCause,
+  PowerEvent,
+  PowerMonitorConfig,
+} from './models/types/Power';
+export { ClockOptions, NtpOptions, TimeUpdate } from './models/types/Clock';
+export { ShutdownOptions, ShutdownResult } from './models/types/Shutdown';
+export { PhonebookStorage, PhonebookEncoding, PhonebookEntry, PhonebookEntryOptions } from './models/types/Phonebook';
+export { default as ModemSocket } from './models/ModemSocket';
+export { default as IpDataDemultiplexer } from './models/IpDataDemultiplexer';
+export { SocketOptions, SocketProtocol } from './models/types/Socket';
 export { JobItem } from './models/types/JobItem';
+export { default as InboundSms } from './models/InboundSms';
+export { default as SerialPortTransport } from './models/SerialPortTransport';
+export { default as StreamTransport } from './models/StreamTransport';
+export { Transport, TransportCallback, ControlLines } from './models/types/Transport';
+export { default as Sim800LSimulator } from './models/Sim800LSimulator';
+export { default as JsonFileOutboxStore } from './models/JsonFileOutboxStore';
+export { OutboxStore } from './models/types/OutboxStore';
+export {
+  SimulatorOptions,
+  SimulatorError,
+  SimulatorResponse,
+  SimulatorHttpResponse,
+  SimulatorHttpRequest,
+} from './models/types/Simulator';
+export {
+  InboundSmsStatus,
+  InboundSmsLocation,
+  NewSmsNotification,
+  SmsListFilter,
+  DeleteFlag,
+  StoredMessage,
+  DirectSmsRawObject,
+} from './models/types/InboundSms';
 import { Sms } from './models/Sms';
 import { DeliveryReportRawObject, SmsCreationOptions, SmsStatus } from './models/types/Sms';
 import { SerialPort, SerialPortOpenOptions } from 'serialport';
-import { EventEmitter } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { TypedEventEmitter } from './models/TypedEventEmitter';
+import { NetworkEvent, Sim800LEvents } from './models/types/Events';
 import { v4 } from 'uuid';
 import { PortInfo } from './models/types/SimConfig';
 import { JobHandler, ParsedData } from './models/types/JobHandler';
 import { JobItem } from './models/types/JobItem';
 import { CommandParams, ModemCallback, ModemFunction, PromisifyFunctionSignature } from './models/types/ModemCallback';
 import ModemResponse, {
+  CellData,
+  CellInfoData,
   CheckModemResponse,
-  CheckNetworkData,
   CheckPinStatus,
   ConnectionStatus,
+  GsmLocationData,
   InitializeResponse,
   InitializeStatus,
   ModemErrorRaw,
+  ModemInfo,
+  PinAttempts,
   QueryStatus,
+  StorageInfo,
+  StorageUsage,
 } from './models/types/ModemResponse';
 import SimConfig from './models/types/SimConfig';
 import Logger from './models/types/Logger';
 import InboundSms from './models/InboundSms';
+import SerialPortTransport from './models/SerialPortTransport';
+import { parseModemError } from './models/ModemErrorCatalogue';
+import { Transport } from './models/types/Transport';
+import { CallDirection, CallInfo, CallMode, CallState, IncomingCall, UrcNotification } from './models/types/Call';
+import { UssdResponse, UssdStatus } from './models/types/Ussd';
+import { HttpActionResult, HttpRequestOptions, HttpResponse } from './models/types/Http';
+import { ShutdownOptions, ShutdownResult } from './models/types/Shutdown';
+import ModemSocket from './models/ModemSocket';
+import IpDataDemultiplexer from './models/IpDataDemultiplexer';
+import { SocketOptions, SocketProtocol } from './models/types/Socket';
+import { SignalQuality } from './models/types/Signal';
+import { ChargeState, PowerCause, PowerEvent, PowerSupply, SleepMode } from './models/types/Power';
+import { ClockOptions, NtpOptions, TimeUpdate } from './models/types/Clock';
+import { PhonebookEncoding, PhonebookEntry, PhonebookEntryOptions, PhonebookStorage } from './models/types/Phonebook';
+import {
+  AccessTechnology,
+  NetworkOperator,
+  OperatorInfo,
+  OperatorSelection,
+  OperatorSelectionMode,
+  OperatorStatus,
+} from './models/types/Operator';
+import {
+  DeleteFlag,
+  DirectSmsRawObject,
+  NewSmsNotification,
+  SmsListFilter,
+  StoredMessage,
+} from './models/types/InboundSms';
 
-class Sim800L extends EventEmitter {
+class Sim800L extends TypedEventEmitter<Sim800LEvents> {
   public simConfig: SimConfig = {
     customCnmi: '2,1,2,1,0',
     deliveryReport: true,
     autoDeleteFromSim: true,
+    multipartTimeout: 60000,
   };
-  public port: SerialPort;
+  public port: Transport;
   private initialized = false;
   private networkReady = false;
   private simUnlocked = false;
+  // the codes the SIM has refused, initialize never sends them again
+  private rejectedCodes = new Set<string>();
   private networkRetry = 0;
   private retryNumber = 0;
   private resetNumber = 0;
@@ -47,9 +164,50 @@ class Sim800L extends EventEmitter {
   private queue: JobItem[] = [];
   private busy = false;
   private dataBuffer = '';
+  // the undecoded bytes behind dataBuffer, for the payloads that may not be UTF-8
+  private rawBuffer = Buffer.alloc(0);
   private networkMonitorInterval?: NodeJS.Timer;
+  private signalMonitorInterval?: NodeJS.Timer;
+  private signal?: SignalQuality;
+  private signalLow = false;
+  private powerMonitorInterval?: NodeJS.Timer;
+  private brownoutInterval?: NodeJS.Timer;
+  private spoolerInterval?: NodeJS.Timer;
+  private resetTimeout?: NodeJS.Timeout;
+  private supply?: PowerSupply;
+  // the AT+CSMS message service, only service 1 expects the direct messages to be acknowledged
+  private smsService = 0;
+  private poweredDown = false;
+  private sleepMode = SleepMode.DISABLED;
+  // DTR mode only, false once the DTR line has been released
+  private awake = true;
+  private sleepTimeout?: NodeJS.Timeout;
+  // the last time anything went through the serial port
+  private lastActivity = Date.now();
+  // the last time each monitor ran, they wake a sleeping modem up now and then only
+  private watchdogRuns = new Map<string, number>();
+  // set by shutdown, only the session commands and the outbox still go through while draining
+  private stopping = false;
+  // set once shutdown is over, every command fails right away
+  private stopped = false;
+  private info?: ModemInfo;
   private inbox: InboundSms[] = [];
+  private handledUrcs = new Set<string>();
+  private calls = new Map<number, CallInfo>();
+  private incomingCall?: IncomingCall;
+  private sockets = new Map<number, ModemSocket>();
+  private ipStackReady = false;
+  // UTF-8 characters may be cut between two chunks
+  private decoder = new StringDecoder('utf8');
+  private ipData = new IpDataDemultiplexer((link, data) => this.sockets.get(link)?.push(data));
+  private multipartBuffer = new Map<string, { parts: InboundSms[]; timeoutIdentifier: any }>();
+  private spoolerHistory: { timestamp: number; parts: number }[] = [];
+  private spooling?: Sms;
+  // past this time, the spooler stops waiting for the Sms being sent
+  private spoolingDeadline = 0;
   public outbox: Sms[] = [];
+  private messages = new Set<Sms>();
+  private persistHandlers = new Map<Sms, () => void>();
   public logger: Logger = {
     error: () => {
       /**/
@@ -78,26 +236,61 @@ class Sim800L extends EventEmitter {
   get isSimUnlocked() {
     return this.simUnlocked;
   }
+  // the identity of the modem and its SIM, gathered once initialized
+  get modemInfo() {
+    return this.info;
+  }
+  // the last signal sample, undefined until the first one
+  get signalQuality() {
+    return this.signal;
+  }
+  // the last AT+CBC sample, undefined until the first one
+  get powerSupply() {
+    return this.supply;
+  }
+  // true once the modem has powered itself down, until it boots again or initialize is called
+  get isPoweredDown() {
+    return this.poweredDown;
+  }
+  // true when the next command has to wake the modem up first
+  get isSleeping() {
+    switch (this.sleepMode) {
+      case SleepMode.DTR:
+        return !this.awake;
+      case SleepMode.AUTO:
+        return Date.now() - this.lastActivity > autoSleepDelay;
+      default:
+        return false;
+    }
+  }
 
   /**
    * Returns an object abstracting a SIM800L family serial modem.
    *
-   * @param {SerialPortOpenOptions} options - The options you provide to the "serialport" dependency
+   * @param {SerialPortOpenOptions | Transport} options - The options you provide to the "serialport" dependency, or your own Transport (eg: a StreamTransport wrapping a TCP socket)
    * @param {SimConfig} simConfig - The additional
    */
-  constructor(options: SerialPortOpenOptions<any>, simConfig: SimConfig) {
+  constructor(options: SerialPortOpenOptions<any> | Transport, simConfig: SimConfig) {
     super();
     try {
-      // parsing the options (setting autoOpen to false in the meantime)
-      this.port = new SerialPort(options as SerialPortOpenOptions<any>);
+      // parsing the options, the serialport transport is not opened until the events are attached
+      this.port = isTransport(options) ? options : new SerialPortTransport(options);
       this.simConfig = { ...this.simConfig, ...simConfig };
       this.logger = this.simConfig.logger || this.logger;
       this.logger.info('==== SIM800L interface module ====  ');
       // Forwarding all events
       this.attachingEvents();
+      this.port.open((err) => {
+        if (err) {
+          this.logger.error(`sim800l - unable to open transport: ${err.message}`);
+          this.emit('error', err);
+        }
+      });
       this.initialize(null, {});
-      this.brownoutDetector();
-      this.spooler();
+      this.brownoutInterval = this.brownoutDetector();
+      this.powerMonitorInterval = this.setupPowerMonitor();
+      this.restoreOutbox();
+      this.spoolerInterval = this.spooler();
       this.logger.debug(`sim800l - instance created`);
     } catch (error) {
       throw error;
@@ -114,23 +307,103 @@ class Sim800L extends EventEmitter {
   }
 
   /**
-   * Closes the current serialport communication tunnel
+   * Closes the current transport communication tunnel. The monitors, the spooler and the listeners keep running, use shutdown() to release them as well
    *
    * @returns void
    */
   public close(): void {
     try {
       this.initialized = false;
-      this.logger.info(`close - closing serial port`);
+      this.logger.info(`close - closing transport`);
       this.port.close();
-      this.logger.debug(`close - serial port closed`);
+      this.logger.debug(`close - transport closed`);
     } catch (error) {
       this.initialized = false;
-      this.logger.error(`close - unable to close serial port`);
+      this.logger.error(`close - unable to close transport`);
       throw error;
     }
   }
 
+  /**
+   * Shuts the instance down for good : new commands and messages are refused, the queue and the outbox are drained, the modem is powered off (optional),
+   * then every monitor, timeout and internal listener is released and the transport is closed. The Sms created by this instance detach themselves from it, your own listeners are left for you to remove
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {ShutdownOptions} params - an object containing the drain and powerOff flags, and the drain timeout
+   * @returns {Promise<ModemResponse<ShutdownResult>> | void} A Promise resolving the ModemResponse, telling whether the drain completed and the modem powered off. If a callback is provided, the function will use the callback instead and return void
+   */
+  public shutdown: ModemFunction<ShutdownOptions, ShutdownResult> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.shutdown, params);
+    } else {
+      const { drain = true, powerOff = false, timeout = 30000 } = params;
+      if (this.stopping) {
+        callback({
+          uuid: v4(),
+          type: 'shutdown',
+          result: 'failure',
+          error: { type: 'shutdown', content: 'the modem is already shutting down' },
+        });
+        return;
+      }
+      this.logger.info(`shutdown - shutting down`);
+      this.stopping = true;
+      // the monitors would only queue refused jobs, and a refused check would look like a brownout
+      [this.networkMonitorInterval, this.signalMonitorInterval, this.powerMonitorInterval, this.brownoutInterval]
+        .filter((interval) => interval)
+        .forEach((interval) => clearInterval(interval!));
+      if (drain) {
+        this.logger.verbose(`shutdown - waiting for the queue and the outbox to drain`);
+      }
+      const drained = await this.drain(drain ? timeout : 0);
+      if (drain && !drained) {
+        this.logger.warn(`shutdown - the queue and the outbox did not drain within ${timeout}ms`);
+      }
+      if (this.spoolerInterval) {
+        clearInterval(this.spoolerInterval);
+      }
+      this.failJobs('shutdown', 'the modem is shutting down');
+      if (powerOff && !this.poweredDown) {
+        this.logger.verbose(`shutdown - powering the modem off`);
+        // the modem answers with NORMAL POWER DOWN only, which fails the job as any other power down does
+        await this.execCommand(null, { command: 'AT+CPOWD=1', type: 'power-off', immediate: true, timeout: 10000 });
+      }
+      const poweredOff = powerOff && this.poweredDown;
+      this.stopped = true;
+      this.initialized = false;
+      this.networkReady = false;
+      if (this.sleepTimeout) {
+        clearTimeout(this.sleepTimeout);
+        this.sleepTimeout = undefined;
+      }
+      if (this.resetTimeout) {
+        clearTimeout(this.resetTimeout);
+        this.resetTimeout = undefined;
+      }
+      // the parts received so far are still worth emitting
+      [...this.multipartBuffer.keys()].forEach((key) => this.flushMultipartSms(key));
+      this.closeSockets();
+      this.disconnectCalls();
+      // the live Sms stop listening to the modem and leave the outbox store as it is
+      [...this.messages].forEach((sms) => sms.dispose());
+      this.emit('shutdown', { drained, poweredOff });
+      this.detachingEvents();
+      this.port.removeAllListeners();
+      this.port.close((error) => {
+        if (error) {
+          this.logger.warn(`shutdown - unable to close transport: ${error.message}`);
+        }
+      });
+      this.logger.info(`shutdown - modem shut down`);
+      callback({
+        uuid: v4(),
+        type: 'shutdown',
+        result: 'success',
+        data: { raw: [], processed: { drained, poweredOff } },
+      });
+    }
+  };
+
   /**
    * A function creating an Sms attached to this particular Sim800L instance
    *
@@ -141,10 +414,55 @@ class Sim800L extends EventEmitter {
    */
   public createSms = (receipient: string, text: string, options = {} as SmsCreationOptions) => {
     const sms = new Sms(receipient, text, options, this);
-    this.outbox.push(sms);
+    this.trackSms(sms);
+    this.spool(sms);
     return sms; // neat
   };
 
+  /**
+   * Queues an Sms into the spooler, it will be sent once its sendFlag is set, by priority, after its sendAt date and within the simConfig.rateLimit
+   *
+   * @param {Sms} sms - The Sms to queue, createSms() already does it for you
+   */
+  public spool = (sms: Sms) => {
+    if (this.stopping) {
+      // the outbox store, if any, keeps the message for the next run
+      this.logger.warn(`spool - modem is shutting down, sms ${sms.id.split('-')[0]} won't be spooled`);
+      return;
+    }
+    if (!this.outbox.includes(sms)) {
+      this.outbox.push(sms);
+      this.emit('spooled', sms);
+    }
+  };
+
+  /**
+   * Registers a live Sms, it will be disposed of on shutdown. The Sms constructor already does it for you
+   *
+   * @param {Sms} sms - The Sms created for this instance
+   */
+  public attachSms = (sms: Sms) => {
+    this.messages.add(sms);
+  };
+
+  /**
+   * Forgets an Sms : it leaves the spooler and stops writing through the outbox store. Called by Sms.dispose()
+   *
+   * @param {Sms} sms - The disposed Sms
+   */
+  public detachSms = (sms: Sms) => {
+    this.messages.delete(sms);
+    const persist = this.persistHandlers.get(sms);
+    if (persist) {
+      sms.off('statuschange', persist);
+      this.persistHandlers.delete(sms);
+    }
+    const index = this.outbox.indexOf(sms);
+    if (index > -1) {
+      this.outbox.splice(index, 1);
+    }
+  };
+
   /**
    * Initialization routine for the modem. Can be called after cold-boot.
    * The function checks if the modem is online, enables verbose mode, checks if pin is required, unlock the sim and updates the config of the modem
@@ -158,6 +476,8 @@ class Sim800L extends EventEmitter {
       return promisify(this.initialize, params);
     } else {
       this.logger.info('Initializing modem');
+      // the module may have been powered back on, it is worth a try
+      this.poweredDown = false;
       try {
         this.logger.verbose(`initialize - checking if modem is online`);
         const modemChecked = await this.checkModem(null, {});
@@ -172,19 +492,35 @@ class Sim800L extends EventEmitter {
         this.logger.verbose('initialize - checking if pin is required');
         const pinChecked = (await this.checkPinRequired(null, {})) as ModemResponse<CheckPinStatus>;
         if (!(pinChecked.result === 'success')) {
-          // We switch, if !NEED_PIN we can callback and return
-          if (!(pinChecked.error?.content.status === InitializeStatus.NEED_PIN) || !this.simConfig.pin) {
+          // We switch, if the SIM can't be unlocked with the config we can callback and return
+          const { pin, puk } = this.simConfig;
+          const needPuk = pinChecked.error?.content.status === InitializeStatus.NEED_PUK;
+          const code = needPuk ? puk : pin;
+          if (
+            ![InitializeStatus.NEED_PIN, InitializeStatus.NEED_PUK].includes(pinChecked.error?.content.status) ||
+            !code ||
+            !pin ||
+            !(await this.canTryCode(code, needPuk))
+          ) {
             this.emit('error', pinChecked);
             callback(pinChecked);
             return;
           }
           // We will try to unlock the SIM, once, emit an event and throw the hell out of the app if it does not work
-          this.logger.verbose('initialize - unlocking SIM');
-          const unlocked = (await this.unlockSim(null, { pin: this.simConfig.pin })) as ModemResponse;
+          this.logger.verbose(`initialize - ${needPuk ? 'unblocking SIM with the PUK code' : 'unlocking SIM'}`);
+          const unlocked = (
+            needPuk ? await this.unlockWithPuk(null, { puk: code, pin }) : await this.unlockSim(null, { pin })
+          ) as ModemResponse;
           if (!(unlocked.result === 'success')) {
-            this.logger.error(`initialize - unable to unlock SIM, ${unlocked.error?.content.message}`);
+            if (unlocked.error?.content.status === InitializeStatus.PIN_INCORRECT) {
+              this.rejectedCodes.add(code);
+            }
+            this.logger.error(
+              `initialize - unable to unlock SIM, ${unlocked.error?.content.message || unlocked.error?.content}`,
+            );
             this.emit('error', unlocked);
             callback(unlocked);
+            return;
           }
         }
         // finally, we update the cnmi config
@@ -194,18 +530,49 @@ class Sim800L extends EventEmitter {
             this.logger.error('initialize - unable to upload CNMI config');
             this.emit('error', updatedConfig);
             callback(updatedConfig);
+            return;
+          }
+          const service = await this.getSmsService(null, {});
+          if (service.result !== 'success') {
+            this.logger.warn("initialize - unable to read the message service, direct messages won't be acknowledged");
           }
         }
+        // Caller ID on incoming calls, and unsolicited +CLCC reports on every call state change
+        const callerId = await this.execCommand(null, { command: 'AT+CLIP=1', type: 'caller-id' });
+        const callReports = await this.execCommand(null, { command: 'AT+CLCC=1', type: 'call-reports' });
+        if (callerId.result !== 'success' || callReports.result !== 'success') {
+          this.logger.warn('initialize - unable to enable caller id and call state reports');
+        }
         // And we set the SMS mode to PDU
         this.setSmsMode(null, {});
+        if (this.simConfig.networkTime) {
+          const networkTime = await this.setNetworkTime(null, { enabled: true });
+          if (networkTime.result !== 'success') {
+            this.logger.warn('initialize - unable to enable network time updates');
+          }
+        }
+        // the SIM may have been swapped since the last initialization
+        const info = await this.getModemInfo(null, { refresh: true });
+        if (info.result !== 'success') {
+          this.logger.warn('initialize - unable to get the modem identity');
+        }
 
         // Holy cow
         this.initialized = true;
         this.logger.info(`modem is initialized and ready! 👌`);
-        this.emit('initialized');
+        this.emit('initialized', this.info || {});
         this.retryNumber = 0;
         this.resetNumber = 0;
         this.checkNetwork(null, {});
+        callback({
+          uuid: v4(),
+          type: 'initialize',
+          result: 'success',
+          data: {
+            raw: [],
+            processed: { status: InitializeStatus.READY, message: getStatusMessage(InitializeStatus.READY) },
+          },
+        });
       } catch (error) {
         this.logger.error('initialize - unhandled initialization failure');
         callback(null, new Error('unhandled initialization failure'));
@@ -276,6 +643,59 @@ class Sim800L extends EventEmitter {
     }
   };
 
+  /**
+   * Gets the identity of the modem and of its SIM : manufacturer (AT+CGMI), model (AT+CGMM, or ATI), firmware revision (AT+CGMR), IMEI (AT+GSN), IMSI (AT+CIMI), ICCID (AT+CCID) and subscriber number (AT+CNUM).
+   * It is gathered once initialized and cached, the fields the modem can't answer (eg: the IMSI of a locked SIM) are left undefined
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{refresh?: boolean}} params - an object containing the refresh parameter, set it to query the modem again instead of returning the cached identity
+   * @returns {Promise<ModemResponse<ModemInfo>> | void} A Promise resolving the ModemResponse, containing the identity. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getModemInfo: ModemFunction<{ refresh?: boolean }, ModemInfo> = async (
+    callback,
+    { refresh = false } = {},
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getModemInfo, { refresh });
+    } else if (this.info && !refresh) {
+      callback({ uuid: v4(), type: 'modem-info', result: 'success', data: { raw: [], processed: this.info } });
+    } else {
+      this.logger.verbose(`getmodeminfo - getting modem identity`);
+      this.execSession(callback, 'modem-info', 60000, async (session) => {
+        const query = async (command: string, pattern = identityPattern) => {
+          const response = await this.sessionCommand(session, { command, type: 'identity' });
+          // besides the echo and the OK, URCs may have landed in the buffer, the value is the line matching the pattern
+          return response.result === 'success'
+            ? (response.data!.processed as ParsedData).find(
+                (line) => line !== command && line !== 'OK' && !isUrc(line) && pattern.test(line),
+              )
+            : undefined;
+        };
+        const info: ModemInfo = {};
+        info.manufacturer = await query('AT+CGMI');
+        info.model = (await query('AT+CGMM')) || (await query('ATI'));
+        info.revision = (await query('AT+CGMR'))?.replace(/^Revision:\s*/, '');
+        info.imei = await query('AT+GSN', /^\d{15}$/);
+        info.imsi = await query('AT+CIMI', /^\d{6,15}$/);
+        info.iccid = await query('AT+CCID', /^\d{18,19}[\dA-F]?$/i);
+        const ownNumber = await query('AT+CNUM', /^\+CNUM: /);
+        info.number =
+          ownNumber && ownNumber.startsWith('+CNUM: ') ? splitFields(ownNumber.replace('+CNUM: ', ''))[1] : undefined;
+        if (!info.imei && !info.model) {
+          return {
+            uuid: session.uuid,
+            type: session.type,
+            result: 'failure',
+            error: { type: 'modem-info', content: 'the modem did not answer any identity query' },
+          };
+        }
+        this.info = info;
+        this.logger.verbose(`getmodeminfo - ${info.model} ${info.imei}, sim ${info.iccid || 'unknown'}`);
+        return { uuid: session.uuid, type: session.type, result: 'success', data: { raw: [], processed: info } };
+      });
+    }
+  };
+
   /**
    * A function used to determine the SIM current state
    *
@@ -362,6 +782,7 @@ class Sim800L extends EventEmitter {
                   status: InitializeStatus.ERROR,
                   message: getError(buffer).message,
                 },
+                modemError: getError(buffer).modemError,
               },
             });
             job.ended = true;
@@ -379,74 +800,164 @@ class Sim800L extends EventEmitter {
    * unlockSim does exactly what you think it does
    *
    * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
-   * @param {{pin: string}} params - an object containing a pin property used to unlock the sim. the pin must be passed as a string
+   * @param {{pin: string}} params - an object containing a pin property used to unlock the sim. the pin must be passed as a string of 4 to 8 digits
    * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
    */
   public unlockSim: ModemFunction<{ pin: string }> = async (callback: ModemCallback | null, { pin }): Promise<any> => {
     if (typeof callback !== 'function') {
       return promisify(this.unlockSim, { pin });
     } else {
+      if (!pinPattern.test(pin)) {
+        // the pin is sent as is, anything else could end the AT+CPIN command and inject another one
+        callback({
+          uuid: v4(),
+          type: 'pin-unlock',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: 'the pin must hold 4 to 8 digits' },
+        });
+        return;
+      }
       this.logger.verbose('unlocksim - unlocking SIM');
-      const handler: JobHandler = (buffer, job) => {
+      this.execCommand(callback, { command: `AT+CPIN=${pin}`, type: 'pin-unlock', handler: this.unlockHandler });
+    }
+  };
+
+  /**
+   * Unblocks a SIM locked after too many wrong pins (AT+CPIN=<puk>,<pin>), the pin is replaced by the new one. The SIM is permanently blocked after 10 wrong PUK codes, check getPinAttemptsRemaining first
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{puk: string, pin: string}} params - an object containing the PUK code (8 digits) and the new pin (4 to 8 digits), both passed as strings
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public unlockWithPuk: ModemFunction<{ puk: string; pin: string }> = async (callback, { puk, pin }): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.unlockWithPuk, { puk, pin });
+    } else {
+      if (!pukPattern.test(puk) || !pinPattern.test(pin)) {
+        callback({
+          uuid: v4(),
+          type: 'puk-unlock',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: 'the PUK must hold 8 digits and the pin 4 to 8 digits' },
+        });
+        return;
+      }
+      this.logger.verbose('unlockwithpuk - unblocking SIM');
+      this.execCommand(callback, {
+        command: `AT+CPIN="${puk}","${pin}"`,
+        type: 'puk-unlock',
+        handler: this.unlockHandler,
+      });
+    }
+  };
+
+  /**
+   * Changes the pin of the SIM (AT+CPWD="SC"), a wrong current pin counts as a failed attempt
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{pin: string, newPin: string}} params - an object containing the current pin and the new one, both passed as strings of 4 to 8 digits
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public changePin: ModemFunction<{ pin: string; newPin: string }> = async (
+    callback,
+    { pin, newPin },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.changePin, { pin, newPin });
+    } else {
+      if (!pinPattern.test(pin) || !pinPattern.test(newPin)) {
+        callback({
+          uuid: v4(),
+          type: 'pin-change',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: 'the pins must hold 4 to 8 digits' },
+        });
+        return;
+      }
+      this.logger.verbose('changepin - changing SIM pin');
+      this.execCommand(callback, { command: `AT+CPWD="SC","${pin}","${newPin}"`, type: 'pin-change' });
+    }
+  };
+
+  /**
+   * Enables or disables the pin request of the SIM on power up (AT+CLCK="SC"), a wrong pin counts as a failed attempt
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{enabled: boolean, pin: string}} params - an object containing the enabled flag and the current pin, passed as a string of 4 to 8 digits
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public setPinLock: ModemFunction<{ enabled: boolean; pin: string }> = async (
+    callback,
+    { enabled, pin },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.setPinLock, { enabled, pin });
+    } else {
+      if (!pinPattern.test(pin)) {
+        callback({
+          uuid: v4(),
+          type: 'pin-lock',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: 'the pin must hold 4 to 8 digits' },
+        });
+        return;
+      }
+      this.logger.verbose(`setpinlock - ${enabled ? 'enabling' : 'disabling'} SIM pin lock`);
+      this.execCommand(callback, { command: `AT+CLCK="SC",${enabled ? 1 : 0},"${pin}"`, type: 'pin-lock' });
+    }
+  };
+
+  /**
+   * Gets the number of attempts left before the pin, pin2, PUK and PUK2 codes are blocked (AT+SPIC)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<PinAttempts>> | void} A Promise resolving the ModemResponse, containing the remaining attempts. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getPinAttemptsRemaining: ModemFunction<{}, PinAttempts> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getPinAttemptsRemaining, params);
+    } else {
+      this.logger.verbose('getpinattemptsremaining - getting remaining attempts');
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
         const parsedBuffer = parseBuffer(buffer);
-        this.logger.debug(`unlocksim - ${parsedBuffer}`);
-        if (getError(buffer).isError) {
-          // pin is probably wrong, we need to callback
-          this.logger.error(`unlocksim - WRONG PIN ! CHECK PIN ASAP`);
+        if (isOk(buffer)) {
+          const line = parsedBuffer.find((value) => value.startsWith('+SPIC: '));
+          if (!line) {
+            this.logger.error('getpinattemptsremaining - parse error: +SPIC field');
+            job.callback!({
+              uuid: job.uuid,
+              type: job.type,
+              result: 'failure',
+              error: { type: 'parse-error', content: parsedBuffer },
+            });
+            job.ended = true;
+            return;
+          }
+          const [pin, pin2, puk, puk2] = line
+            .replace('+SPIC: ', '')
+            .split(',')
+            .map((value) => parseInt(value, 10));
           job.callback!({
             uuid: job.uuid,
             type: job.type,
-            result: 'failure',
-            error: {
-              type: 'sim-unlock',
-              content: {
-                status: InitializeStatus.PIN_INCORRECT,
-                message: getError(buffer).message,
-              },
-            },
+            result: 'success',
+            data: { raw: parsedBuffer, processed: { pin, pin2, puk, puk2 } },
           });
-        }
-        // if not error, it can be "okay", we just log it as we're waiting for the +CPIN info
-        if (isOk(buffer)) {
-          this.logger.verbose(`unlocksim - PIN accepted, waiting on SIM unlock`);
-        }
-        // Now, we're looking into the last part of parsedData and search for "+CPIN: "
-        if (parsedBuffer.length && parsedBuffer[parsedBuffer.length - 1].startsWith('+CPIN: ')) {
-          // we extract the status, it looks a lot like checkpinrequired
-          const key = parsedBuffer[parsedBuffer.length - 1].split('+CPIN: ').length
-            ? parsedBuffer[parsedBuffer.length - 1].split('+CPIN: ')[1]
-            : null;
-          const status = key ? getInitializationStatus(key) : InitializeStatus.ERROR;
-          this.logger.verbose(`checkpinrequired - result : ${getStatusMessage(status)} `);
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`getpinattemptsremaining - unable to get remaining attempts`);
           job.callback!({
             uuid: job.uuid,
-            type: 'pin-check',
-            result: status === InitializeStatus.READY ? 'success' : 'failure',
-            data:
-              status === InitializeStatus.READY
-                ? {
-                    raw: buffer,
-                    processed: {
-                      status,
-                      message: getStatusMessage(status),
-                    },
-                  }
-                : undefined,
-            error:
-              status !== InitializeStatus.READY
-                ? {
-                    type: 'pin-required',
-                    content: {
-                      status,
-                      message: getStatusMessage(status),
-                    },
-                  }
-                : undefined,
+            type: job.type,
+            result: 'failure',
+            error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
           });
           job.ended = true;
         }
       };
-      this.execCommand(callback, { command: `AT+CPIN=${pin}`, type: 'pin-unlock', handler });
+      this.execCommand(callback, { command: 'AT+SPIC', type: 'pin-attempts', handler });
     }
   };
 
@@ -492,10 +1003,13 @@ class Sim800L extends EventEmitter {
       const handler: JobHandler = (buffer, job, emitter) => {
         sneakyDelivery(buffer, emitter);
         // Very simple handler, once called, it just sets a timeout of a few seconds resetting the whole object
-        setTimeout(() => {
+        this.resetTimeout = setTimeout(() => {
+          this.resetTimeout = undefined;
           this.logger.warn(`resetmodem - modem has reset`);
           job.ended = true;
           this.queue = [];
+          this.sleepMode = SleepMode.DISABLED;
+          this.awake = true;
           if (reInitialize) this.initialize(null, {});
           callback({
             uuid: job.uuid,
@@ -517,15 +1031,18 @@ class Sim800L extends EventEmitter {
       this.brownoutNumber = 0;
       this.networkReady = false;
       this.dataBuffer = '';
+      this.rawBuffer = Buffer.alloc(0);
+      this.handledUrcs.clear();
+      this.ipData.reset();
+      this.closeSockets();
     }
   };
 
   /**
-   * A function that returns the current state of network connection
-   * WIP : update to return the carrier name and force connect to it if idling
+   * A function that returns the current state of network connection, use getOperator to get the carrier name
    *
    * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
-   * @param {{force: boolean}} params - an object containing the -for now- unused force parameter
+   * @param {{force: boolean}} params - an object containing the force parameter : if the modem is idling (not registered, not searching), the automatic operator selection is triggered
    * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the current network status. If a callback is provided, the function will use the callback instead and return void
    */
   public checkNetwork: ModemFunction<{ force?: boolean }> = async (
@@ -594,6 +1111,10 @@ class Sim800L extends EventEmitter {
             networkStatus: parseInt(networkStatus, 10),
           });
           job.ended = true;
+          if (force && parseInt(networkStatus, 10) === ConnectionStatus.NOT_REGISTERED_IDLE) {
+            this.logger.warn(`checknetwork - modem is idling, forcing the automatic operator selection`);
+            this.selectOperator(null, { mode: OperatorSelectionMode.AUTOMATIC });
+          }
           return;
         } else if (getError(buffer).isError) {
           this.logger.error('checknetwork - unhandled command error');
@@ -604,6 +1125,7 @@ class Sim800L extends EventEmitter {
             error: {
               type: 'command',
               content: getError(buffer).message,
+              modemError: getError(buffer).modemError,
             },
           });
           return;
@@ -633,12 +1155,32 @@ class Sim800L extends EventEmitter {
    */
   public execCommand: ModemFunction<CommandParams> = (
     callback,
-    { command, type, handler = defaultHandler, immediate = false, subcommands = [], reference, timeout },
+    { command, type, handler = defaultHandler, immediate = false, subcommands = [], reference, timeout, onStart },
   ): any => {
     if (typeof callback !== 'function') {
-      return promisify(this.execCommand, { command, type, handler, immediate });
+      return promisify(this.execCommand, {
+        command,
+        type,
+        handler,
+        immediate,
+        subcommands,
+        reference,
+        timeout,
+        onStart,
+      });
     }
     const uuid = v4();
+    if (this.stopped || (this.stopping && !immediate && type !== 'sms-send')) {
+      this.logger.warn(`execcommand - modem is shutting down, dropping command ${type}`);
+      callback({ uuid, type, result: 'failure', error: { type: 'shutdown', content: command } });
+      return;
+    }
+    if (this.poweredDown) {
+      // there is nothing to talk to, retrying would only pile up timeouts
+      this.logger.warn(`execcommand - modem is powered down, dropping command ${type}`);
+      callback({ uuid, type, result: 'failure', error: { type: 'powered-down', content: command } });
+      return;
+    }
     this.logger.debug(
       `execcommand - queuing command ${command.length > 15 ? `${command.substring(0, 15)}...` : command} with uuid ${
         uuid.split('-')[0]
@@ -657,6 +1199,7 @@ class Sim800L extends EventEmitter {
       subcommandIndex: 0,
       subcommands,
       reference,
+      onStart,
     };
     if (!immediate) {
       this.queue.push(item);
@@ -687,256 +1230,2597 @@ class Sim800L extends EventEmitter {
     }
   };
 
-  private handleIncomingData = (buffer: any) => {
-    this.busy = true;
-    const received = buffer.toString() as string;
-    this.dataBuffer += received;
-    this.logger.debug(`handleincoming - adding ${received.replace(/(\r\n)|[\r\n]{1}/g, ' | ')} to buffer`);
-    // if there is a queue, we can call the handler
-    if (this.queue.length) {
-      // If the job has ended, we need to unshift it before assigning it
-
-      if (this.queue[0].ended) {
-        this.logger.debug(`handleincoming - wiping ended event ${this.queue[0].uuid.split('-')[0]}`);
-        this.queue.shift();
-      }
-      const job = this.queue[0];
-      this.logger.debug(`handleincoming - calling ${this.queue[0].uuid.split('-')[0]} handler`);
-      job.handler(this.dataBuffer, job, this, this.logger);
+  /**
+   * Gets the selected message service (AT+CSMS?). With service 1, the messages routed directly (CNMI <mt> = 2) must be acknowledged with AT+CNMA, which initialize takes care of
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<number>> | void} A Promise resolving the ModemResponse, containing the service (0 or 1). If a callback is provided, the function will use the callback instead and return void
+   */
+  public getSmsService: ModemFunction<{}, number> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getSmsService, params);
     } else {
-      // This is incoming data, we need to create a job, unshift it and handle the data
-      const uuid = v4();
-      this.logger.debug(`handleincoming - new data received, creating job ${uuid.split('-')[0]}`);
-      const job = {
-        uuid,
-        handler: this.incomingHandler,
-        command: '',
-        type: 'incoming',
-        timeoutIdentifier: null,
-        ended: false,
-        subcommandIndex: 0,
+      this.logger.verbose('getsmsservice - getting message service');
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
+        const parsedBuffer = parseBuffer(buffer);
+        if (isOk(buffer)) {
+          const line = parsedBuffer.find((value) => value.startsWith('+CSMS: '));
+          const service = line ? parseInt(line.replace('+CSMS: ', ''), 10) : NaN;
+          if (isNaN(service)) {
+            this.logger.error('getsmsservice - parse error: +CSMS field');
+            job.callback!({
+              uuid: job.uuid,
+              type: job.type,
+              result: 'failure',
+              error: { type: 'parse-error', content: parsedBuffer },
+            });
+            job.ended = true;
+            return;
+          }
+          this.smsService = service;
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: { raw: parsedBuffer, processed: service },
+          });
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`getsmsservice - unable to get message service`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+          });
+          job.ended = true;
+        }
       };
-      this.queue.unshift(job);
-      this.incomingHandler(this.dataBuffer, job, this, this.logger);
+      this.execCommand(callback, { command: 'AT+CSMS?', type: 'sms-service', handler });
     }
-    this.busy = false;
-    this.nextEvent();
   };
-  private nextEvent() {
-    this.logger.debug(`nextevent - current queue length: ${this.queue.length}`);
-    if (!this.queue.length) {
-      return;
-    }
-    // if the job has ended, we clear it
-    const job = this.queue[0];
-    if (job && job.ended) {
-      this.logger.debug(`nextevent - wiping ended event ${this.queue[0].uuid.split('-')[0]}`);
-      this.clear();
-      return;
-    }
-    //
-    if (this.busy) {
-      this.logger.debug(`nextevent - handler busy, skipping`);
-      return;
-    }
-    this.busy = true;
-    // Finding the first item in the queue
 
-    // setting the 10s timeout
-    if (!job.timeoutIdentifier) {
-      this.logger.debug(`nextevent - now processing event ${job.uuid.split('-')[0]}`);
-      // If we're here, this is the first time we process this event
-      job.timeoutIdentifier = setTimeout(() => {
-        this.cancelEvent(job.uuid);
-      }, job.overrideTimeout || 15000);
-      if (job.command || job.command.length) {
-        this.logger.debug(
-          `write - sending command ${job.uuid.split('-')[0]} : ${
-            job.command.length > 15 ? `${job.command.substring(0, 15)}...` : job.command
-          }`,
-        );
-        this.port.write(
-          `${job.command}${
-            job.command.endsWith(String.fromCharCode(26)) || job.command.endsWith(String.fromCharCode(27)) ? '' : '\r'
-          }`,
-          undefined,
-          (err: any) => {
-            if (err) {
-              this.logger.error(`write - unable to write to port ${this.port.port}`);
-              if (job.callback) {
-                job.callback(null, err);
-              } else {
-                // event error
-                this.emit('error', err);
+  /**
+   * Reads the message stored at the given index (AT+CMGR) and decodes it into an InboundSms. The modem must be in PDU mode.
+   * When a storage is given, it is selected as the read storage first (AT+CPMS) and stays selected, deleteMessage then targets the same storage
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{index: number, storage?: string}} params - an object containing the index of the message and, optionally, the storage it has been notified in
+   * @returns {Promise<ModemResponse<InboundSms>> | void} A Promise resolving the ModemResponse, containing the InboundSms. If a callback is provided, the function will use the callback instead and return void
+   */
+  public readMessage: ModemFunction<{ index: number; storage?: string }, InboundSms> = async (
+    callback,
+    { index, storage },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.readMessage, { index, storage });
+    } else {
+      this.logger.verbose(`readmessage - reading message ${index}${storage ? ` from ${storage}` : ''}`);
+      if (!storage) {
+        this.execCommand(callback, { command: `AT+CMGR=${index}`, type: 'read-sms', handler: this.readHandler(index) });
+        return;
+      }
+      // AT+CMGR reads from the current read storage, which may not be the one the message has been notified in
+      this.execSession(callback, 'read-sms', 30000, async (session) => {
+        const selected = await this.sessionCommand(session, {
+          command: `AT+CPMS="${storage}"`,
+          type: 'select-storage',
+        });
+        if (selected.result !== 'success') {
+          return { ...selected, uuid: session.uuid, type: session.type };
+        }
+        const read = await this.sessionCommand(session, {
+          command: `AT+CMGR=${index}`,
+          type: 'read-sms',
+          handler: this.readHandler(index, storage),
+        });
+        return { ...read, uuid: session.uuid, type: session.type };
+      });
+    }
+  };
+
+  /**
+   * Lists the messages of the current read storage (AT+CMGL) and decodes them into InboundSms. Listing unread messages marks them as read.
+   * Messages that can't be decoded as received messages (eg: stored outgoing messages) are skipped
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{filter?: SmsListFilter}} params - an object containing the status filter (REC UNREAD, REC READ, STO UNSENT, STO SENT or ALL), defaults to ALL
+   * @returns {Promise<ModemResponse<InboundSms[]>> | void} A Promise resolving the ModemResponse, containing the InboundSms array. If a callback is provided, the function will use the callback instead and return void
+   */
+  public listMessages: ModemFunction<{ filter?: SmsListFilter }, InboundSms[]> = async (
+    callback,
+    { filter = 'ALL' },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.listMessages, { filter });
+    } else {
+      this.logger.verbose(`listmessages - listing ${filter} messages`);
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
+        const parsedBuffer = parseBuffer(buffer);
+        if (isOk(buffer)) {
+          this.logger.debug(`listmessages - buffer : ${parsedBuffer}`);
+          const messages = getStoredMessages(parsedBuffer, '+CMGL: ').reduce((list, message) => {
+            try {
+              list.push(new InboundSms(message.pdu, { index: message.index, status: message.status }));
+            } catch (error: any) {
+              this.logger.warn(`listmessages - skipping message ${message.index}: ${error}`);
+            }
+            return list;
+          }, [] as InboundSms[]);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: {
+              raw: parsedBuffer,
+              processed: messages,
+            },
+          });
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`listmessages - unable to list messages`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: {
+              type: 'command',
+              content: getError(buffer).message,
+              modemError: getError(buffer).modemError,
+            },
+          });
+          job.ended = true;
+        }
+      };
+      this.execCommand(callback, {
+        command: `AT+CMGL=${listFilterMap.get(filter)}`,
+        type: 'list-sms',
+        handler,
+        timeout: 30000,
+      });
+    }
+  };
+
+  /**
+   * Deletes the message stored at the given index of the current read storage (AT+CMGD)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{index: number}} params - an object containing the index of the message
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public deleteMessage: ModemFunction<{ index: number }> = async (callback, { index }): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.deleteMessage, { index });
+    } else {
+      this.logger.verbose(`deletemessage - deleting message ${index}`);
+      this.execCommand(callback, { command: `AT+CMGD=${index}`, type: 'delete-sms' });
+    }
+  };
+
+  /**
+   * Deletes every message of the current read storage matching the delete flag (AT+CMGD=1,<flag>)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{flag?: DeleteFlag}} params - an object containing the DeleteFlag (READ, READ_SENT, READ_SENT_UNSENT or ALL), defaults to ALL
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public deleteAll: ModemFunction<{ flag?: DeleteFlag }> = async (
+    callback,
+    { flag = DeleteFlag.ALL },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.deleteAll, { flag });
+    } else {
+      this.logger.verbose(`deleteall - deleting messages with flag ${flag}`);
+      this.execCommand(callback, { command: `AT+CMGD=1,${flag}`, type: 'delete-sms', timeout: 30000 });
+    }
+  };
+
+  /**
+   * Selects the storages used to read / delete, write / send and receive messages (AT+CPMS). Omitted storages default to the read storage
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{read: string, write?: string, receive?: string}} params - an object containing the storages (eg: SM for the SIM, ME for the modem)
+   * @returns {Promise<ModemResponse<StorageUsage>> | void} A Promise resolving the ModemResponse, containing the usage of the selected storages. If a callback is provided, the function will use the callback instead and return void
+   */
+  public setPreferredStorage: ModemFunction<{ read: string; write?: string; receive?: string }, StorageUsage> = async (
+    callback,
+    { read, write = read, receive = write },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.setPreferredStorage, { read, write, receive });
+    } else {
+      this.logger.verbose(`setpreferredstorage - selecting ${read}, ${write}, ${receive}`);
+      const handler = this.storageHandler([read, write, receive]);
+      this.execCommand(callback, {
+        command: `AT+CPMS="${read}","${write}","${receive}"`,
+        type: 'set-storage',
+        handler,
+      });
+    }
+  };
+
+  /**
+   * Returns the currently selected storages and how many messages they hold (AT+CPMS?)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<StorageUsage>> | void} A Promise resolving the ModemResponse, containing the storage usage. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getStorageUsage: ModemFunction<{}, StorageUsage> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getStorageUsage, params);
+    } else {
+      this.logger.verbose(`getstorageusage - getting storage usage`);
+      this.execCommand(callback, { command: 'AT+CPMS?', type: 'storage-usage', handler: this.storageHandler() });
+    }
+  };
+
+  /**
+   * Selects the phonebook storage the other phonebook methods work on (AT+CPBS)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{storage: PhonebookStorage}} params - an object containing the storage, SM being the SIM phonebook
+   * @returns {Promise<ModemResponse<StorageInfo>> | void} A Promise resolving the ModemResponse, containing the number of used and total entries of the storage. If a callback is provided, the function will use the callback instead and return void
+   */
+  public setPhonebookStorage: ModemFunction<{ storage: PhonebookStorage }, StorageInfo> = async (
+    callback,
+    { storage },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.setPhonebookStorage, { storage });
+    } else {
+      this.logger.verbose(`setphonebookstorage - selecting ${storage}`);
+      this.execSession(callback, 'phonebook-storage', 30000, async (session) => {
+        const selected = await this.sessionCommand(session, {
+          command: `AT+CPBS="${storage}"`,
+          type: 'phonebook-select',
+        });
+        if (selected.result !== 'success') {
+          return { ...selected, uuid: session.uuid, type: session.type };
+        }
+        const query = await this.sessionCommand(session, { command: 'AT+CPBS?', type: 'phonebook-usage' });
+        if (query.result !== 'success') {
+          return { ...query, uuid: session.uuid, type: session.type };
+        }
+        const lines = query.data!.processed as ParsedData;
+        const [name, used, total] = splitFields(
+          (lines.find((line) => line.startsWith('+CPBS: ')) || '').replace('+CPBS: ', ''),
+        );
+        return {
+          uuid: session.uuid,
+          type: session.type,
+          result: 'success',
+          data: { raw: lines, processed: { storage: name, used: parseInt(used, 10), total: parseInt(total, 10) } },
+        };
+      });
+    }
+  };
+
+  /**
+   * Reads the phonebook entries of a range of indexes (AT+CPBR), empty indexes are left out
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{start: number, end?: number, encoding?: PhonebookEncoding}} params - an object containing the first and last indexes of the range (start only by default) and the encoding of the names, UCS2 by default so no character is lost
+   * @returns {Promise<ModemResponse<PhonebookEntry[]>> | void} A Promise resolving the ModemResponse, containing the entries. If a callback is provided, the function will use the callback instead and return void
+   */
+  public readPhonebook: ModemFunction<{ start: number; end?: number; encoding?: PhonebookEncoding }, PhonebookEntry[]> =
+    async (callback, { start, end = start, encoding = 'UCS2' }): Promise<any> => {
+      if (typeof callback !== 'function') {
+        return promisify(this.readPhonebook, { start, end, encoding });
+      } else {
+        this.logger.verbose(`readphonebook - reading entries ${start} to ${end}`);
+        this.phonebookSession(callback, 'phonebook-read', encoding, {
+          command: `AT+CPBR=${start},${end}`,
+          type: 'phonebook-read',
+          handler: this.phonebookHandler('+CPBR: ', encoding),
+        });
+      }
+    };
+
+  /**
+   * Finds the phonebook entries whose name starts with the given text (AT+CPBF)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{name: string, encoding?: PhonebookEncoding}} params - an object containing the beginning of the name and the encoding of the names, UCS2 by default so no character is lost
+   * @returns {Promise<ModemResponse<PhonebookEntry[]>> | void} A Promise resolving the ModemResponse, containing the entries found. If a callback is provided, the function will use the callback instead and return void
+   */
+  public findPhonebookEntries: ModemFunction<{ name: string; encoding?: PhonebookEncoding }, PhonebookEntry[]> = async (
+    callback,
+    { name, encoding = 'UCS2' },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.findPhonebookEntries, { name, encoding });
+    } else {
+      if (encoding === 'IRA' && !phonebookTextPattern.test(name)) {
+        // a double quote or a line break would end the AT+CPBF command and inject another one
+        callback({
+          uuid: v4(),
+          type: 'phonebook-find',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid IRA name ${JSON.stringify(name)}` },
+        });
+        return;
+      }
+      this.logger.verbose(`findphonebookentries - finding ${name}`);
+      this.phonebookSession(callback, 'phonebook-find', encoding, {
+        command: `AT+CPBF="${encodePhonebookText(name, encoding)}"`,
+        type: 'phonebook-find',
+        handler: this.phonebookHandler('+CPBF: ', encoding),
+      });
+    }
+  };
+
+  /**
+   * Writes a phonebook entry (AT+CPBW), updating the entry if the index is already used.
+   * The number is a dial string, see dial. An IRA name may not hold a double quote or a control character, the names holding one default to UCS2
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {PhonebookEntryOptions} params - an object containing the index (the first free one if not provided), number, number type (deduced from the number if not provided), name and encoding of the name (UCS2 if the name is not ASCII)
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public writePhonebookEntry: ModemFunction<PhonebookEntryOptions> = async (callback, params): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.writePhonebookEntry, params);
+    } else {
+      const { index, number: phoneNumber, name } = params;
+      // a double quote can only be written hex encoded, in UCS2
+      const encoding = params.encoding || (/^[\x20\x21\x23-\x7e]*$/.test(name) ? 'IRA' : 'UCS2');
+      const invalid = !dialStringPattern.test(phoneNumber)
+        ? `invalid number ${JSON.stringify(phoneNumber)}`
+        : encoding === 'IRA' && !phonebookTextPattern.test(name)
+        ? `invalid IRA name ${JSON.stringify(name)}`
+        : undefined;
+      if (invalid) {
+        callback({
+          uuid: v4(),
+          type: 'phonebook-write',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: invalid },
+        });
+        return;
+      }
+      const type = params.type || (phoneNumber.startsWith('+') ? 145 : 129);
+      this.logger.verbose(
+        `writephonebookentry - writing ${name} at ${index !== undefined ? index : 'the first free index'}`,
+      );
+      this.phonebookSession(callback, 'phonebook-write', encoding, {
+        command: `AT+CPBW=${index !== undefined ? index : ''},"${encodePhonebookText(
+          phoneNumber,
+          encoding,
+        )}",${type},"${encodePhonebookText(name, encoding)}"`,
+        type: 'phonebook-write',
+      });
+    }
+  };
+
+  /**
+   * Deletes a phonebook entry (AT+CPBW=<index>)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{index: number}} params - an object containing the index of the entry
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public deletePhonebookEntry: ModemFunction<{ index: number }> = async (callback, { index }): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.deletePhonebookEntry, { index });
+    } else {
+      this.logger.verbose(`deletephonebookentry - deleting entry ${index}`);
+      this.execCommand(callback, { command: `AT+CPBW=${index}`, type: 'phonebook-delete' });
+    }
+  };
+
+  /**
+   * Calls the given number (ATD<number>;). The call progress is then reported through the callstate event.
+   * The number may only hold digits, an international +, *, #, A to D, the P, W and , pauses, and the I / G CLIR and CUG modifiers
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{number: string}} params - an object containing the number to call
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public dial: ModemFunction<{ number: string }> = async (callback, params): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.dial, params);
+    } else {
+      if (!dialStringPattern.test(params.number)) {
+        // anything else could end the ATD command and smuggle another one in
+        callback({
+          uuid: v4(),
+          type: 'dial',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid dial string ${JSON.stringify(params.number)}` },
+        });
+        return;
+      }
+      this.logger.verbose(`dial - calling ${params.number}`);
+      this.execCommand(callback, {
+        command: `ATD${params.number};`,
+        type: 'dial',
+        handler: this.callHandler(),
+        timeout: 20000,
+      });
+    }
+  };
+
+  /**
+   * Answers the incoming call (ATA)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public answer: ModemFunction<{}> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.answer, params);
+    } else {
+      this.logger.verbose(`answer - answering incoming call`);
+      this.execCommand(callback, { command: 'ATA', type: 'answer', handler: this.callHandler(), timeout: 20000 });
+    }
+  };
+
+  /**
+   * Hangs up every call, established, ringing or being dialed (ATH)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public hangUp: ModemFunction<{}> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.hangUp, params);
+    } else {
+      this.logger.verbose(`hangup - hanging up`);
+      this.execCommand(
+        (result, err) => {
+          if (result && result.result === 'success') {
+            this.disconnectCalls();
+          }
+          callback(result, err);
+        },
+        { command: 'ATH', type: 'hang-up' },
+      );
+    }
+  };
+
+  /**
+   * Lists the current calls (AT+CLCC)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<CallInfo[]>> | void} A Promise resolving the ModemResponse, containing the calls. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getCalls: ModemFunction<{}, CallInfo[]> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getCalls, params);
+    } else {
+      this.logger.verbose(`getcalls - listing current calls`);
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
+        const parsedBuffer = parseBuffer(buffer);
+        if (isOk(buffer)) {
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: {
+              raw: parsedBuffer,
+              processed: parsedBuffer.filter((line) => line.startsWith('+CLCC: ')).map(getCallInfo),
+            },
+          });
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`getcalls - unable to list calls`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: {
+              type: 'command',
+              content: getError(buffer).message,
+              modemError: getError(buffer).modemError,
+            },
+          });
+          job.ended = true;
+        }
+      };
+      this.execCommand(callback, { command: 'AT+CLCC', type: 'list-calls', handler });
+    }
+  };
+
+  /**
+   * Gets the signal quality (AT+CSQ), converted to dBm and to a 0 to 4 bars level. It is sampled by the network monitor as well, see simConfig.signal
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<SignalQuality>> | void} A Promise resolving the ModemResponse, containing the signal quality. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getSignalQuality: ModemFunction<{}, SignalQuality> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getSignalQuality, params);
+    } else {
+      this.logger.verbose(`getsignalquality - getting signal quality`);
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
+        const parsedBuffer = parseBuffer(buffer);
+        if (isOk(buffer)) {
+          const line = parsedBuffer.find((value) => value.startsWith('+CSQ: '));
+          if (!line) {
+            this.logger.error('getsignalquality - parse error: +CSQ field');
+            job.callback!({
+              uuid: job.uuid,
+              type: job.type,
+              result: 'failure',
+              error: { type: 'parse-error', content: parsedBuffer },
+            });
+            job.ended = true;
+            return;
+          }
+          const quality = getSignalQuality(line);
+          this.logger.verbose(
+            `getsignalquality - ${quality.dbm !== undefined ? `${quality.dbm} dBm` : 'unknown'}, ${quality.bars} bars`,
+          );
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: { raw: parsedBuffer, processed: quality },
+          });
+          this.emit('signal', quality);
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`getsignalquality - unable to get signal quality`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+          });
+          job.ended = true;
+        }
+      };
+      this.execCommand(callback, { command: 'AT+CSQ', type: 'signal-quality', handler });
+    }
+  };
+
+  /**
+   * Gets the battery charge state, level and supply voltage (AT+CBC). It is sampled on an interval as well, see simConfig.power
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<PowerSupply>> | void} A Promise resolving the ModemResponse, containing the charge state, percent and millivolts. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getPowerSupply: ModemFunction<{}, PowerSupply> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getPowerSupply, params);
+    } else {
+      this.logger.verbose(`getpowersupply - getting supply voltage`);
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
+        const parsedBuffer = parseBuffer(buffer);
+        if (isOk(buffer)) {
+          const line = parsedBuffer.find((value) => value.startsWith('+CBC: '));
+          const supply = line ? getPowerSupply(line) : undefined;
+          if (!supply) {
+            this.logger.error('getpowersupply - parse error: +CBC field');
+            job.callback!({
+              uuid: job.uuid,
+              type: job.type,
+              result: 'failure',
+              error: { type: 'parse-error', content: parsedBuffer },
+            });
+            job.ended = true;
+            return;
+          }
+          this.logger.verbose(`getpowersupply - ${supply.millivolts} mV, ${supply.percent}%`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: { raw: parsedBuffer, processed: supply },
+          });
+          this.supply = supply;
+          this.emit('power', supply);
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`getpowersupply - unable to get supply voltage`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+          });
+          job.ended = true;
+        }
+      };
+      this.execCommand(callback, { command: 'AT+CBC', type: 'power-supply', handler });
+    }
+  };
+
+  /**
+   * Sets the sleep mode of the modem (AT+CSCLK). In DTR mode the modem sleeps while the DTR line is released, the transport must implement set(). In AUTO mode it falls asleep on its own when the serial port is idle.
+   * Either way, the job queue wakes the modem up before sending a command. While it sleeps, the brownout detector and the monitors only run once every simConfig.sleep.watchdogInterval (10 minutes by default)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{mode: SleepMode}} params - an object containing the sleep mode, DISABLED, DTR or AUTO
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public setSleepMode: ModemFunction<{ mode: SleepMode }> = async (callback, { mode }): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.setSleepMode, { mode });
+    } else {
+      if (mode === SleepMode.DTR && !this.port.set) {
+        this.logger.error(`setsleepmode - the transport can't drive the DTR line`);
+        callback({
+          uuid: v4(),
+          type: 'sleep-mode',
+          result: 'failure',
+          error: { type: 'sleep', content: 'the transport does not implement set()' },
+        });
+        return;
+      }
+      this.logger.verbose(`setsleepmode - setting sleep mode ${SleepMode[mode]}`);
+      this.execCommand(
+        (response, err) => {
+          if (response && response.result === 'success') {
+            this.sleepMode = mode;
+            if (mode === SleepMode.DTR) {
+              this.releaseDtr();
+            }
+          }
+          callback(response, err);
+        },
+        { command: `AT+CSCLK=${mode}`, type: 'sleep-mode' },
+      );
+    }
+  };
+
+  /**
+   * Reads the real-time clock of the modem (AT+CCLK?)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<Date>> | void} A Promise resolving the ModemResponse, containing the clock as a Date. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getClock: ModemFunction<{}, Date> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getClock, params);
+    } else {
+      this.logger.verbose(`getclock - reading the modem clock`);
+      this.execCommand(callback, { command: 'AT+CCLK?', type: 'get-clock', handler: this.clockHandler });
+    }
+  };
+
+  /**
+   * Sets the real-time clock of the modem (AT+CCLK), the modem keeps its local time along with the timezone in quarters of an hour
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {ClockOptions} params - an object containing the date and, optionally, the timezone in minutes east of UTC (the timezone of the host by default)
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public setClock: ModemFunction<ClockOptions> = async (callback, params): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.setClock, params);
+    } else {
+      const { date, timezone = -date.getTimezoneOffset() } = params;
+      this.logger.verbose(`setclock - setting the modem clock to ${date.toISOString()}`);
+      this.execCommand(callback, { command: `AT+CCLK="${formatClock(date, timezone)}"`, type: 'set-clock' });
+    }
+  };
+
+  /**
+   * Enables or disables the network time updates (AT+CLTS), the setting is saved in the user profile (AT&W). Once enabled, the time sent by the network on registration updates the clock and is emitted through the timeupdate event.
+   * initialize enables it when simConfig.networkTime is set
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{enabled: boolean}} params - an object containing the enabled flag
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public setNetworkTime: ModemFunction<{ enabled: boolean }> = async (callback, { enabled }): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.setNetworkTime, { enabled });
+    } else {
+      this.logger.verbose(`setnetworktime - ${enabled ? 'enabling' : 'disabling'} network time updates`);
+      this.execSession(callback, 'network-time', 30000, async (session) => {
+        for (const command of [`AT+CLTS=${enabled ? 1 : 0}`, 'AT&W']) {
+          const response = await this.sessionCommand(session, { command, type: 'network-time' });
+          if (response.result !== 'success') {
+            return { ...response, uuid: session.uuid, type: session.type };
+          }
+        }
+        return { uuid: session.uuid, type: session.type, result: 'success' };
+      });
+    }
+  };
+
+  /**
+   * Synchronizes the real-time clock with a NTP server (AT+CNTP). The GPRS bearer is opened with the simConfig.gprs APN if needed.
+   * The server must be a host name or an IPv4 address
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {NtpOptions} params - an object containing the server (pool.ntp.org by default), the timezone in minutes east of UTC (the timezone of the host by default) and the time allowed to the synchronization
+   * @returns {Promise<ModemResponse<Date>> | void} A Promise resolving the ModemResponse, containing the synchronized clock as a Date. If a callback is provided, the function will use the callback instead and return void
+   */
+  public syncNtp: ModemFunction<NtpOptions, Date> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.syncNtp, params);
+    } else {
+      const { server = 'pool.ntp.org', timezone = -new Date().getTimezoneOffset(), timeout = 60000 } = params;
+      if (!hostPattern.test(server)) {
+        // the server is quoted into AT+CNTP, anything else could inject another command
+        callback({
+          uuid: v4(),
+          type: 'ntp-sync',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid NTP server ${JSON.stringify(server)}` },
+        });
+        return;
+      }
+      this.logger.verbose(`syncntp - synchronizing the modem clock with ${server}`);
+      this.execSession(callback, 'ntp-sync', timeout + 120000, async (session) => {
+        const bearer = await this.openBearer(session);
+        if (bearer) {
+          return { ...bearer, uuid: session.uuid, type: session.type };
+        }
+        for (const command of ['AT+CNTPCID=1', `AT+CNTP="${server}",${Math.round(timezone / 15)}`]) {
+          const response = await this.sessionCommand(session, { command, type: 'ntp-config' });
+          if (response.result !== 'success') {
+            return { ...response, uuid: session.uuid, type: session.type };
+          }
+        }
+        // 1 once synchronized, 61 network error, 62 DNS error, 63 connection error, 64 timeout, 65 server error
+        const synced = await this.sessionCommand(session, {
+          command: 'AT+CNTP',
+          type: 'ntp-sync',
+          handler: this.expectHandler(/^\+CNTP: 1$/, /^\+CNTP: \d+$/),
+          timeout,
+        });
+        if (synced.result !== 'success') {
+          this.logger.error(`syncntp - synchronization failed: ${JSON.stringify(synced.error?.content)}`);
+          return { ...synced, uuid: session.uuid, type: session.type };
+        }
+        const clock = await this.sessionCommand(session, {
+          command: 'AT+CCLK?',
+          type: 'get-clock',
+          handler: this.clockHandler,
+        });
+        return { ...clock, uuid: session.uuid, type: session.type };
+      });
+    }
+  };
+
+  /**
+   * Gets the serving cell and the neighbour cells, switching the engineering mode on (AT+CENG=1,1) before querying it (AT+CENG?)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<CellInfoData>> | void} A Promise resolving the ModemResponse, containing the cells (MCC, MNC, LAC, cell ID, ARFCN, RX level...). If a callback is provided, the function will use the callback instead and return void
+   */
+  public getCellInfo: ModemFunction<{}, CellInfoData> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getCellInfo, params);
+    } else {
+      this.logger.verbose(`getcellinfo - getting cell information`);
+      this.execSession(callback, 'cell-info', 30000, async (session) => {
+        const enabled = await this.sessionCommand(session, { command: 'AT+CENG=1,1', type: 'engineering-mode' });
+        if (enabled.result !== 'success') {
+          return { ...enabled, uuid: session.uuid, type: session.type };
+        }
+        const query = await this.sessionCommand(session, { command: 'AT+CENG?', type: 'engineering-query' });
+        if (query.result !== 'success') {
+          return { ...query, uuid: session.uuid, type: session.type };
+        }
+        const lines = query.data!.processed as ParsedData;
+        const cells = getCellInfo(lines);
+        this.logger.verbose(
+          `getcellinfo - ${cells.serving ? 'serving cell' : 'no serving cell'}, ${cells.neighbours.length} neighbours`,
+        );
+        return { uuid: session.uuid, type: session.type, result: 'success', data: { raw: lines, processed: cells } };
+      });
+    }
+  };
+
+  /**
+   * Gets the approximate location of the modem computed by the network from the cells around (AT+CIPGSMLOC). The GPRS bearer is opened with the simConfig.gprs APN if needed
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{timeout?: number}} params - an object containing the time allowed to the location request, 60s by default
+   * @returns {Promise<ModemResponse<GsmLocationData>> | void} A Promise resolving the ModemResponse, containing the latitude, longitude and date of the location. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getGsmLocation: ModemFunction<{ timeout?: number }, GsmLocationData> = async (
+    callback,
+    { timeout = 60000 } = {},
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getGsmLocation, { timeout });
+    } else {
+      this.logger.verbose(`getgsmlocation - getting location`);
+      this.execSession(callback, 'gsm-location', timeout + 90000, async (session) => {
+        const bearer = await this.openBearer(session);
+        if (bearer) {
+          return { ...bearer, uuid: session.uuid, type: session.type };
+        }
+        const query = await this.sessionCommand(session, {
+          command: 'AT+CIPGSMLOC=1,1',
+          type: 'gsm-location',
+          timeout,
+        });
+        if (query.result !== 'success') {
+          return { ...query, uuid: session.uuid, type: session.type };
+        }
+        const lines = query.data!.processed as ParsedData;
+        const line = lines.find((item) => item.startsWith('+CIPGSMLOC: ')) || '';
+        const location = getGsmLocation(line);
+        if (!location) {
+          this.logger.error(`getgsmlocation - location unavailable: ${line}`);
+          return {
+            uuid: session.uuid,
+            type: session.type,
+            result: 'failure',
+            // 601 network error, 602 no memory, 603 DNS error, 604 stack busy
+            error: { type: 'location', content: line },
+          };
+        }
+        return { uuid: session.uuid, type: session.type, result: 'success', data: { raw: lines, processed: location } };
+      });
+    }
+  };
+
+  /**
+   * Gets the operator the modem is registered to (AT+COPS?), both its long name and its numeric MCC / MNC
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse<OperatorInfo>> | void} A Promise resolving the ModemResponse, containing the selection mode and the current operator, if any. If a callback is provided, the function will use the callback instead and return void
+   */
+  public getOperator: ModemFunction<{}, OperatorInfo> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.getOperator, params);
+    } else {
+      this.logger.verbose(`getoperator - getting current operator`);
+      // the format of AT+COPS? is a setting, both queries must not be interleaved with another one
+      this.execSession(callback, 'get-operator', 30000, async (session) => {
+        const results: ModemResponse[] = [];
+        for (const format of [2, 0]) {
+          for (const command of [`AT+COPS=3,${format}`, 'AT+COPS?']) {
+            const response = await this.sessionCommand(session, { command, type: 'operator' });
+            if (response.result !== 'success') {
+              return { ...response, uuid: session.uuid, type: session.type };
+            }
+            results.push(response);
+          }
+        }
+        const [numeric, name] = [results[1], results[3]].map(
+          (response) => (response.data!.processed as ParsedData).find((line) => line.startsWith('+COPS: ')) || '',
+        );
+        const operator = { ...getOperatorInfo(name), ...getOperatorInfo(numeric) };
+        this.logger.verbose(`getoperator - ${operator.name || 'not registered'}`);
+        return {
+          uuid: session.uuid,
+          type: session.type,
+          result: 'success',
+          data: { raw: [numeric, name], processed: operator },
+        };
+      });
+    }
+  };
+
+  /**
+   * Scans the available networks (AT+COPS=?), it takes up to a few minutes
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{timeout?: number}} params - an object containing the time allowed to the scan, 180s by default
+   * @returns {Promise<ModemResponse<NetworkOperator[]>> | void} A Promise resolving the ModemResponse, containing the operators and their status (available, current or forbidden). If a callback is provided, the function will use the callback instead and return void
+   */
+  public listOperators: ModemFunction<{ timeout?: number }, NetworkOperator[]> = async (
+    callback,
+    { timeout = 180000 } = {},
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.listOperators, { timeout });
+    } else {
+      this.logger.verbose(`listoperators - scanning networks`);
+      const handler: JobHandler = (buffer, job, emitter) => {
+        sneakyDelivery(buffer, emitter);
+        const parsedBuffer = parseBuffer(buffer);
+        if (isOk(buffer)) {
+          const operators = getNetworkOperators(parsedBuffer.find((line) => line.startsWith('+COPS: ')) || '');
+          this.logger.verbose(`listoperators - ${operators.length} operators found`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: { raw: parsedBuffer, processed: operators },
+          });
+          job.ended = true;
+        } else if (getError(buffer).isError) {
+          this.logger.error(`listoperators - unable to scan networks`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+          });
+          job.ended = true;
+        }
+      };
+      this.execCommand(callback, { command: 'AT+COPS=?', type: 'list-operators', handler, timeout });
+    }
+  };
+
+  /**
+   * Selects the operator (AT+COPS=<mode>), automatically or manually. MANUAL_AUTOMATIC falls back to the automatic selection if the operator is not available.
+   * The numeric id must hold 5 or 6 digits, the name may hold any printable character but the double quote
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {OperatorSelection} params - an object containing the selection mode and, for the manual modes, the numeric (eg: 20801) or long name of the operator
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public selectOperator: ModemFunction<OperatorSelection> = async (callback, { mode, id }): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.selectOperator, { mode, id });
+    } else {
+      const manual = [OperatorSelectionMode.MANUAL, OperatorSelectionMode.MANUAL_AUTOMATIC].includes(mode);
+      if (manual && !id) {
+        callback({
+          uuid: v4(),
+          type: 'select-operator',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: 'an operator id is required by the manual selection' },
+        });
+        return;
+      }
+      if (manual && !(/^\d+$/.test(id!) ? operatorNumericPattern : operatorNamePattern).test(id!)) {
+        // the id is quoted into AT+COPS, a double quote or a line break would inject another command
+        callback({
+          uuid: v4(),
+          type: 'select-operator',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid operator id ${JSON.stringify(id)}` },
+        });
+        return;
+      }
+      this.logger.verbose(`selectoperator - ${OperatorSelectionMode[mode]}${manual ? ` ${id}` : ''}`);
+      this.execCommand(callback, {
+        command: manual ? `AT+COPS=${mode},${/^\d+$/.test(id!) ? 2 : 0},"${id}"` : `AT+COPS=${mode}`,
+        type: 'select-operator',
+        // the registration to the new network happens before the OK
+        timeout: 120000,
+      });
+    }
+  };
+
+  /**
+   * Sends an USSD code (AT+CUSD=1) and waits for the +CUSD network response, decoded according to its data coding scheme.
+   * If the response status is ACTION_REQUIRED, the session stays open : answer the menu with replyUssd, or close it with cancelUssd.
+   * The code may only hold digits, *, # and +
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{code: string, timeout?: number}} params - an object containing the USSD code (eg: *100#) and the time to wait for the network response, 30s by default
+   * @returns {Promise<ModemResponse<UssdResponse>> | void} A Promise resolving the ModemResponse, containing the network response. If a callback is provided, the function will use the callback instead and return void
+   */
+  public sendUssd: ModemFunction<{ code: string; timeout?: number }, UssdResponse> = async (
+    callback,
+    { code, timeout = 30000 },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.sendUssd, { code, timeout });
+    } else {
+      if (!ussdCodePattern.test(code)) {
+        callback({
+          uuid: v4(),
+          type: 'ussd',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid USSD code ${JSON.stringify(code)}` },
+        });
+        return;
+      }
+      this.ussdRequest(callback, code, timeout);
+    }
+  };
+
+  /**
+   * Answers the menu of an open USSD session, the same way sendUssd does. The answer may hold any printable character but the double quote
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{text: string, timeout?: number}} params - an object containing the answer (eg: the menu entry) and the time to wait for the network response, 30s by default
+   * @returns {Promise<ModemResponse<UssdResponse>> | void} A Promise resolving the ModemResponse, containing the network response. If a callback is provided, the function will use the callback instead and return void
+   */
+  public replyUssd: ModemFunction<{ text: string; timeout?: number }, UssdResponse> = async (
+    callback,
+    { text, timeout = 30000 },
+  ): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.replyUssd, { text, timeout });
+    } else {
+      if (!ussdTextPattern.test(text)) {
+        callback({
+          uuid: v4(),
+          type: 'ussd',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid USSD answer ${JSON.stringify(text)}` },
+        });
+        return;
+      }
+      this.ussdRequest(callback, text, timeout);
+    }
+  };
+
+  /**
+   * Closes the current USSD session (AT+CUSD=2)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public cancelUssd: ModemFunction<{}> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.cancelUssd, params);
+    } else {
+      this.logger.verbose(`cancelussd - closing ussd session`);
+      this.execCommand(callback, { command: 'AT+CUSD=2', type: 'ussd-cancel' });
+    }
+  };
+
+  /**
+   * Sends an HTTP(S) request through the modem HTTP stack. The GPRS bearer is opened with the simConfig.gprs APN if needed,
+   * the whole AT+HTTP* sequence then holds the job queue so no other command can interleave
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {HttpRequestOptions} params - the method (GET, POST or HEAD), url, headers, body and timeout (60s by default) of the request
+   * @returns {Promise<ModemResponse<HttpResponse>> | void} A Promise resolving the ModemResponse, containing the status, headers and body of the response. If a callback is provided, the function will use the callback instead and return void
+   */
+  public httpRequest: ModemFunction<HttpRequestOptions, HttpResponse> = async (callback, params): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.httpRequest, params);
+    } else {
+      const { method = 'GET', url, headers = {}, timeout = 60000 } = params;
+      const invalid = [url, ...Object.keys(headers), ...Object.values(headers)].find(
+        (value) => typeof value !== 'string' || !httpParameterPattern.test(value),
+      );
+      if (invalid !== undefined) {
+        // a double quote or a line break would end the AT+HTTPPARA command and inject another one
+        callback({
+          uuid: v4(),
+          type: 'http-request',
+          result: 'failure',
+          error: { type: 'invalid-parameter', content: `invalid url or header ${JSON.stringify(invalid)}` },
+        });
+        return;
+      }
+      this.logger.verbose(`httprequest - ${method} ${url}`);
+      // the bearer may take up to 85s to open, on top of the request itself
+      this.execSession(callback, 'http-request', timeout + 90000, (session) => this.httpSession(session, params));
+    }
+  };
+
+  /**
+   * Closes the GPRS bearer opened by httpRequest (AT+SAPBR=0,1)
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public closeBearer: ModemFunction<{}> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.closeBearer, params);
+    } else {
+      this.logger.verbose(`closebearer - closing gprs bearer`);
+      this.execCommand(callback, { command: 'AT+SAPBR=0,1', type: 'bearer-close', timeout: 65000 });
+    }
+  };
+
+  /**
+   * Opens a TCP or UDP connection through the modem IP stack, up to 6 at once (AT+CIPMUX=1). The IP stack is brought up with the simConfig.gprs APN if needed
+   * The host must be a host name or an IPv4 address and the port an integer from 1 to 65535
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {SocketOptions} params - the host, port and protocol (TCP by default) of the connection
+   * @returns {Promise<ModemResponse<ModemSocket>> | void} A Promise resolving the ModemResponse, containing a ModemSocket, a Duplex stream of the connection. If a callback is provided, the function will use the callback instead and return void
+   */
+  public openSocket: ModemFunction<SocketOptions, ModemSocket> = async (callback, params): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.openSocket, params);
+    } else {
+      const { host, port, protocol = 'TCP', timeout = 60000 } = params;
+      if (
+        !hostPattern.test(host) ||
+        !Number.isInteger(port) ||
+        port < 1 ||
+        port > 65535 ||
+        !socketProtocols.includes(protocol)
+      ) {
+        // the host, port and protocol are quoted into AT+CIPSTART, anything else could inject another command
+        callback({
+          uuid: v4(),
+          type: 'socket-open',
+          result: 'failure',
+          error: {
+            type: 'invalid-parameter',
+            content: `invalid connection ${JSON.stringify(protocol)} ${JSON.stringify(host)}:${JSON.stringify(port)}`,
+          },
+        });
+        return;
+      }
+      this.logger.verbose(`opensocket - ${protocol} ${host}:${port}`);
+      // the IP stack may take up to 85s to come up
+      this.execSession(callback, 'socket-open', timeout + 90000, (session) => this.socketSession(session, params));
+    }
+  };
+
+  /**
+   * Shuts the IP stack down (AT+CIPSHUT), every open ModemSocket is closed
+   *
+   * @param {ModemCallback | null} callback - optional callback to handle ModemResponse the way you entend to. Must be set to null if not provided for type consistency
+   * @param {{}} params - empty object provided for type consistency
+   * @returns {Promise<ModemResponse> | void} A Promise resolving the ModemResponse, containing the result. If a callback is provided, the function will use the callback instead and return void
+   */
+  public closeIpStack: ModemFunction<{}> = async (callback, params = {}): Promise<any> => {
+    if (typeof callback !== 'function') {
+      return promisify(this.closeIpStack, params);
+    } else {
+      this.logger.verbose(`closeipstack - shutting the ip stack down`);
+      this.execCommand(
+        (result, err) => {
+          this.closeSockets();
+          callback(result, err);
+        },
+        { command: 'AT+CIPSHUT', type: 'ip-shut', handler: this.expectHandler(/^SHUT OK$/), timeout: 65000 },
+      );
+    }
+  };
+
+  private handleIncomingData = (buffer: any) => {
+    this.busy = true;
+    this.lastActivity = Date.now();
+    // payloads received on IP connections are taken out first, their raw bytes would mess with the AT responses
+    const data = this.ipData.push(Buffer.from(buffer));
+    this.rawBuffer = Buffer.concat([this.rawBuffer, data]);
+    const received = this.decoder.write(data);
+    if (!received.length) {
+      this.busy = false;
+      return;
+    }
+    this.dataBuffer += received;
+    this.logger.debug(`handleincoming - adding ${received.replace(/(\r\n)|[\r\n]{1}/g, ' | ')} to buffer`);
+    // if there is a queue, we can call the handler
+    if (this.queue.length) {
+      // If the job has ended, we need to unshift it before assigning it
+
+      if (this.queue[0].ended) {
+        this.logger.debug(`handleincoming - wiping ended event ${this.queue[0].uuid.split('-')[0]}`);
+        this.queue.shift();
+      }
+      const job = this.queue[0];
+      this.logger.debug(`handleincoming - calling ${this.queue[0].uuid.split('-')[0]} handler`);
+      job.handler(this.dataBuffer, job, this, this.logger);
+    } else if (!this.dataBuffer.trim().length) {
+      // line breaks left around an IP payload
+      this.dataBuffer = '';
+      this.rawBuffer = Buffer.alloc(0);
+    } else {
+      // This is incoming data, we need to create a job, unshift it and handle the data
+      const uuid = v4();
+      this.logger.debug(`handleincoming - new data received, creating job ${uuid.split('-')[0]}`);
+      const job = {
+        uuid,
+        handler: this.incomingHandler,
+        command: '',
+        type: 'incoming',
+        timeoutIdentifier: null,
+        ended: false,
+        subcommandIndex: 0,
+      };
+      this.queue.unshift(job);
+      this.incomingHandler(this.dataBuffer, job, this, this.logger);
+    }
+    this.busy = false;
+    this.nextEvent();
+  };
+  private nextEvent() {
+    this.logger.debug(`nextevent - current queue length: ${this.queue.length}`);
+    if (!this.queue.length) {
+      this.allowSleep();
+      return;
+    }
+    // if the job has ended, we clear it
+    const job = this.queue[0];
+    if (job && job.ended) {
+      this.logger.debug(`nextevent - wiping ended event ${this.queue[0].uuid.split('-')[0]}`);
+      this.clear();
+      return;
+    }
+    //
+    if (this.busy) {
+      this.logger.debug(`nextevent - handler busy, skipping`);
+      return;
+    }
+    this.busy = true;
+    // Finding the first item in the queue
+
+    // setting the 10s timeout
+    const starting = !job.timeoutIdentifier;
+    if (starting) {
+      this.logger.debug(`nextevent - now processing event ${job.uuid.split('-')[0]}`);
+      // If we're here, this is the first time we process this event
+      job.timeoutIdentifier = setTimeout(() => {
+        this.cancelEvent(job.uuid);
+      }, job.overrideTimeout || 15000);
+      if (job.command || job.command.length) {
+        const write = () => {
+          this.logger.debug(
+            `write - sending command ${job.uuid.split('-')[0]} : ${
+              job.command.length > 15 ? `${job.command.substring(0, 15)}...` : job.command
+            }`,
+          );
+          this.lastActivity = Date.now();
+          this.port.write(
+            `${job.command}${
+              job.command.endsWith(String.fromCharCode(26)) || job.command.endsWith(String.fromCharCode(27)) ? '' : '\r'
+            }`,
+            (err) => {
+              if (err) {
+                this.logger.error(`write - unable to write to transport: ${err.message}`);
+                // the modem never got the command, waiting for the timeout would only hold the queue
+                job.ended = true;
+                if (job.callback) {
+                  job.callback(null, err);
+                } else {
+                  // event error
+                  this.emit('error', err);
+                }
+                // the transport may call back before nextEvent is done with the job
+                setTimeout(() => this.nextEvent(), 0);
+              }
+            },
+          );
+        };
+        if (this.isSleeping) {
+          this.wakeUp(write);
+        } else {
+          write();
+        }
+      }
+    }
+    this.busy = false;
+    // sessions queue their own commands as soon as they start, the queue must be released first
+    if (starting && job.onStart && !job.ended) {
+      job.onStart(job);
+    }
+  }
+  /**
+   * Wakes the sleeping modem up before writing : the DTR line is asserted, or a throwaway carriage return is sent as the first character is lost
+   */
+  private wakeUp(write: () => void) {
+    this.logger.verbose(`sleep - waking the modem up`);
+    if (this.sleepMode === SleepMode.DTR) {
+      if (this.sleepTimeout) {
+        clearTimeout(this.sleepTimeout);
+        this.sleepTimeout = undefined;
+      }
+      this.awake = true;
+      this.port.set!({ dtr: true }, (err) => {
+        if (err) this.logger.error(`sleep - unable to assert DTR: ${err.message}`);
+      });
+      // the UART is available 50ms after DTR is pulled low
+      setTimeout(write, 50);
+    } else {
+      this.port.write('\r');
+      this.lastActivity = Date.now();
+      setTimeout(write, 100);
+    }
+  }
+  // the modem is left awake a little while, a job often follows another one
+  private allowSleep() {
+    if (this.sleepMode !== SleepMode.DTR || !this.awake || this.sleepTimeout) {
+      return;
+    }
+    this.sleepTimeout = setTimeout(() => {
+      this.sleepTimeout = undefined;
+      if (!this.queue.length && this.sleepMode === SleepMode.DTR) {
+        this.releaseDtr();
+      }
+    }, 1000);
+  }
+  private releaseDtr() {
+    this.logger.verbose(`sleep - releasing DTR, the modem may sleep`);
+    this.awake = false;
+    this.port.set!({ dtr: false }, (err) => {
+      if (err) this.logger.error(`sleep - unable to release DTR: ${err.message}`);
+    });
+  }
+  private attachingEvents() {
+    this.logger.verbose(`events - attaching transport events`);
+    this.port.on('open', () => {
+      this.emit('open');
+    });
+    this.port.on('data', this.handleIncomingData);
+    this.port.on('error', (err) => {
+      this.logger.error(`events - transport error: ${err.message}`);
+      this.emit('error', err);
+    });
+    // this.on('initialized', () => {});
+    this.on('network', this.networkInternalHandler);
+    this.on('signal', this.signalInternalHandler);
+    this.on('brownout', this.brownoutHandler);
+    this.on('directsms', this.directSmsHandler);
+    this.on('newsms', this.newSmsHandler);
+    this.on('urc', this.urcHandler);
+    this.logger.verbose(`events - transport events attached`);
+  }
+  private detachingEvents() {
+    this.logger.verbose(`events - detaching internal events`);
+    // only the handlers attached by attachingEvents, the listeners of the consumer are theirs to remove
+    this.off('network', this.networkInternalHandler);
+    this.off('signal', this.signalInternalHandler);
+    this.off('brownout', this.brownoutHandler);
+    this.off('directsms', this.directSmsHandler);
+    this.off('newsms', this.newSmsHandler);
+    this.off('urc', this.urcHandler);
+  }
+  private cancelEvent(uuid: string) {
+    this.logger.verbose(`timeout - event ${uuid.split('-')[0]} has timed out`);
+    this.logger.debug(`timeout - raw buffer at timeout : ${this.dataBuffer.replace(/(\r\n)|[\r\n]{1}/g, ' | ')}`);
+    // Find the job and calling its callback with the Error timeout
+    const job = this.queue.find((queuedJob) => {
+      return queuedJob.uuid === uuid;
+    });
+    if (job && job.callback) {
+      job.callback({
+        uuid: job.uuid,
+        type: job.type,
+        result: 'failure',
+        error: {
+          type: 'unhandled',
+          content: parseBuffer(this.dataBuffer),
+        },
+      });
+      this.emit('error', {
+        uuid: job.uuid,
+        type: job.type,
+        result: 'failure',
+        error: {
+          type: 'unhandled',
+          content: parseBuffer(this.dataBuffer),
+        },
+      } as ModemResponse<ParsedData>);
+    }
+    if (job && job.type === 'incoming') {
+      // this was an unhandled event, emitting the event
+      this.emit('incoming', {
+        uuid: job.uuid,
+        type: job.type,
+        result: 'failure',
+        error: {
+          type: 'unhandled',
+          content: parseBuffer(this.dataBuffer),
+        },
+      } as ModemResponse<ParsedData>);
+    }
+    if (job) {
+      this.emit('timeout', job);
+    }
+    this.queue = this.queue.filter((item) => {
+      return !(item.uuid === uuid);
+    });
+    this.dataBuffer = '';
+    this.rawBuffer = Buffer.alloc(0);
+    this.handledUrcs.clear();
+    this.busy = false;
+    this.nextEvent();
+  }
+  private clear() {
+    this.logger.debug('clear - clearing buffer');
+    if (this.queue.length && this.queue[0].timeoutIdentifier) {
+      clearTimeout(this.queue[0].timeoutIdentifier);
+    }
+    this.busy = false;
+    this.dataBuffer = '';
+    this.rawBuffer = Buffer.alloc(0);
+    this.handledUrcs.clear();
+    this.queue.shift();
+    this.nextEvent();
+  }
+
+  private networkInternalHandler = (network: NetworkEvent) => {
+    this.logger.verbose(`networkhandler - CREG status has changed: ${network.networkStatus}`);
+    // the first registration status may only come in while shutting down, the monitors would outlive the instance
+    if (!this.networkMonitorInterval && !this.stopping) {
+      this.logger.verbose(`networkhandler - setting network monitoring watchdog`);
+      this.networkMonitorInterval = this.setupNetworkMonitor();
+      this.signalMonitorInterval = this.setupSignalMonitor();
+    }
+    if ([ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(network.networkStatus) && !this.networkReady) {
+      this.logger.warn(`networkhandler - network is now ready`);
+      this.networkReady = true;
+    }
+    if (
+      ![ConnectionStatus.REGISTERED, ConnectionStatus.IN_PROGRESS, ConnectionStatus.ROAMING].includes(
+        network.networkStatus,
+      ) &&
+      this.networkReady
+    ) {
+      this.logger.warn(`networkhandler - network lost, status: ${network.networkStatus}`);
+      this.logger.verbose(`networkhandler - ${4 - this.networkRetry} checks remaining before modem reset`);
+      this.networkReady = false;
+      this.networkRetry += 1;
+    } else {
+      if (this.networkReady) {
+        this.logger.debug(`networkhandler - network online`);
+        this.networkRetry = 0;
+      } else {
+        this.logger.warn(`networkhandler - waiting for network, status: ${network.networkStatus}`);
+        this.logger.verbose(`networkhandler - ${4 - this.networkRetry} checks remaining before modem reset`);
+        this.networkRetry += 1;
+      }
+    }
+    if (this.networkRetry > 3) {
+      this.logger.warn(`networkhandler - network is hanging, resetting`);
+      this.resetModem(null, { reInitialize: true });
+    }
+  };
+
+  private directSmsHandler = (message: DirectSmsRawObject) => {
+    // The same buffer is handled every time data comes in, a message is only processed once per buffer
+    if (this.handledUrcs.has(`+CMT: ${message.data}`)) {
+      return;
+    }
+    this.handledUrcs.add(`+CMT: ${message.data}`);
+    this.logger.verbose(`directsmshandler - +CMT direct sms received`);
+    if (this.isDirectSmsAckRequired()) {
+      this.execCommand(null, { command: 'AT+CNMA', type: 'sms-ack' })
+        .then((acknowledged) => {
+          if (acknowledged.result !== 'success') {
+            this.logger.warn(`directsmshandler - unable to acknowledge direct sms`);
+          }
+        })
+        .catch((error: any) => {
+          this.logger.error(`directsmshandler - unable to acknowledge direct sms: ${error}`);
+          this.emit('error', error instanceof Error ? error : new Error(error));
+        });
+    }
+    try {
+      this.dispatchInboundSms(new InboundSms(message.data));
+    } catch (error: any) {
+      this.logger.error(`directsmshandler - unable to decode direct sms: ${error}`);
+      this.emit('error', {
+        uuid: v4(),
+        type: 'direct-sms',
+        result: 'failure',
+        error: {
+          type: 'parse-error',
+          content: message.data,
+        },
+      } as ModemResponse);
+    }
+  };
+  private isDirectSmsAckRequired() {
+    // <mt> = 2 routes SMS-DELIVERs directly to the TE, which only has to acknowledge them with the phase 2+ service (27.005 3.4.4)
+    const [, mt] = (this.simConfig.customCnmi || '').split(',');
+    return parseInt(mt, 10) === 2 && this.smsService === 1;
+  }
+
+  private dispatchInboundSms(sms: InboundSms) {
+    if (!sms.isPartial) {
+      this.logger.info(`inbound - new sms from ${sms.sender}`);
+      this.emit('sms', sms);
+      return;
+    }
+    // Multipart message, holding the part until every part has been received
+    const key = `${sms.sender}-${sms.reference}-${sms.parts}`;
+    const pending = this.multipartBuffer.get(key) || {
+      parts: [],
+      timeoutIdentifier: setTimeout(() => {
+        this.logger.warn(`inbound - multipart sms ${key} timed out, emitting incomplete message`);
+        this.flushMultipartSms(key);
+      }, this.simConfig.multipartTimeout),
+    };
+    this.logger.verbose(`inbound - received part ${sms.part}/${sms.parts} of multipart sms ${key}`);
+    pending.parts = pending.parts.filter((part) => part.part !== sms.part);
+    pending.parts.push(sms);
+    this.multipartBuffer.set(key, pending);
+    if (pending.parts.length >= sms.parts) {
+      this.flushMultipartSms(key);
+    }
+  }
+  private flushMultipartSms(key: string) {
+    const pending = this.multipartBuffer.get(key);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeoutIdentifier);
+    this.multipartBuffer.delete(key);
+    const sms = InboundSms.fromParts(pending.parts);
+    this.logger.info(`inbound - new ${sms.incomplete ? 'incomplete ' : ''}multipart sms from ${sms.sender}`);
+    this.emit('sms', sms);
+  }
+
+  private signalInternalHandler = (signal: SignalQuality) => {
+    const { low = 1, restored = 2 } = this.simConfig.signal || {};
+    this.signal = signal;
+    // the gap between both thresholds keeps a signal hovering around one of them from flooding the events
+    if (!this.signalLow && signal.bars <= low) {
+      this.logger.warn(`signalhandler - signal is low: ${signal.bars} bars`);
+      this.signalLow = true;
+      this.emit('signallow', signal);
+    } else if (this.signalLow && signal.bars >= restored) {
+      this.logger.info(`signalhandler - signal restored: ${signal.bars} bars`);
+      this.signalLow = false;
+      this.emit('signalrestored', signal);
+    }
+  };
+
+  private brownoutHandler = () => {
+    if (this.brownoutNumber > 3) {
+      this.resetModem(null, { reInitialize: true });
+    }
+    this.logger.warn('brownout - modem is unreachable, retrying');
+    this.logger.verbose(`brownout - ${4 - this.brownoutNumber} checks remaining before modem reset`);
+    this.brownoutNumber += 1;
+  };
+
+  // private brownoutHandler = () => {
+  //   this.resetModem(undefined, undefined, true);
+  // };
+
+  private setupNetworkMonitor() {
+    return setInterval(async () => {
+      // preventing to clutter the networkRetry when modem isn't initialized, and keeping a sleeping modem asleep most of the time
+      if (this.initialized && this.canWatch('network')) {
+        this.checkNetwork(null, {});
+      }
+    }, 60000);
+  }
+  private setupSignalMonitor() {
+    const { interval = 30000 } = this.simConfig.signal || {};
+    if (!interval) {
+      return undefined;
+    }
+    return setInterval(() => {
+      if (this.initialized && this.canWatch('signal')) {
+        this.getSignalQuality(null, {});
+      }
+    }, interval);
+  }
+  private setupPowerMonitor() {
+    const { interval = 60000 } = this.simConfig.power || {};
+    if (!interval) {
+      return undefined;
+    }
+    return setInterval(() => {
+      if (this.initialized && this.canWatch('power')) {
+        this.getPowerSupply(null, {});
+      }
+    }, interval);
+  }
+  /**
+   * Tells whether a monitor may run : always while the modem is awake, once every simConfig.sleep.watchdogInterval while it sleeps
+   */
+  private canWatch(monitor: string): boolean {
+    const now = Date.now();
+    const { watchdogInterval = 600000 } = this.simConfig.sleep || {};
+    if (this.isSleeping && (!watchdogInterval || now - (this.watchdogRuns.get(monitor) || 0) < watchdogInterval)) {
+      return false;
+    }
+    this.watchdogRuns.set(monitor, now);
+    return true;
+  }
+  private brownoutDetector() {
+    return setInterval(async () => {
+      if (this.poweredDown || !this.canWatch('brownout')) {
+        // a powered down module won't answer until it boots again, a sleeping one is only checked now and then
+        return;
+      }
+      const result = await this.checkModem(null, {});
+      if ((result as ModemResponse).result === 'failure' || !this.initialized) {
+        this.emit('brownout');
+      } else {
+        this.brownoutNumber = 0;
+      }
+    }, 20000);
+  }
+
+  private spooler() {
+    return setInterval(() => {
+      const now = Date.now();
+      // expired messages are dropped even when the network is down, they won't get any fresher
+      this.outbox
+        .filter((item) => item.hasIdleParts && item.expiresAt && item.expiresAt.getTime() <= now)
+        .forEach((item) => {
+          this.logger.info(`spooler - sms ${item.id.split('-')[0]} expired before being sent`);
+          spliceFromSpooler(item.id, this.outbox);
+          item.expire();
+          this.emit('expired', item);
+        });
+      // messages sent on their own with sms.send() have nothing left to do in the spooler
+      this.outbox.filter((item) => !item.hasIdleParts).forEach((item) => spliceFromSpooler(item.id, this.outbox));
+      if (!this.isNetworkReady || !this.isInitialized) {
+        return;
+      }
+      const { spoolerFloor } = this.simConfig.signal || {};
+      if (spoolerFloor !== undefined && this.signal && this.signal.bars < spoolerFloor) {
+        // sending with a poor signal mostly ends in timeouts, the messages wait for a better one
+        return;
+      }
+      // waiting for the previous Sms to be handed over to the modem
+      if (this.isSpooling(now)) {
+        return;
+      }
+      this.spooling = undefined;
+      const sms = this.outbox
+        .filter((item) => item.sendFlag && item.hasIdleParts && (!item.sendAt || item.sendAt.getTime() <= now))
+        // Array.prototype.sort is stable, messages sharing the same priority keep their spooling order
+        .sort((a, b) => b.priority - a.priority)[0];
+      if (!sms || !this.isWithinRateLimit(sms, now)) {
+        return;
+      }
+      spliceFromSpooler(sms.id, this.outbox);
+      this.spoolerHistory.push({ timestamp: now, parts: sms.idleParts });
+      this.spooling = sms;
+      this.spoolingDeadline = now + sms.idleParts * spoolingPartTimeout;
+      this.emit('dequeued', sms);
+      sms.sendFlag = false;
+      sms.send();
+    }, 500);
+  }
+  /**
+   * true while the Sms dequeued last is being sent. An Sms still sending past its deadline is left to its jobs, it doesn't hold the outbox anymore
+   */
+  private isSpooling(now = Date.now()): boolean {
+    if (!this.spooling || this.spooling.status !== SmsStatus.SENDING) {
+      return false;
+    }
+    if (now < this.spoolingDeadline) {
+      return true;
+    }
+    this.logger.warn(`spooler - sms ${this.spooling.id.split('-')[0]} is still being sent, moving on to the next one`);
+    this.spooling = undefined;
+    return false;
+  }
+  private isWithinRateLimit(sms: Sms, now: number): boolean {
+    const { messagesPerMinute, partsPerMinute } = this.simConfig.rateLimit || {};
+    this.spoolerHistory = this.spoolerHistory.filter((entry) => entry.timestamp > now - 60000);
+    if (!this.spoolerHistory.length) {
+      // an Sms bigger than the parts limit would never be sent otherwise
+      return true;
+    }
+    if (messagesPerMinute && this.spoolerHistory.length >= messagesPerMinute) {
+      return false;
+    }
+    const parts = this.spoolerHistory.reduce((total, entry) => total + entry.parts, 0);
+    return !partsPerMinute || parts + sms.idleParts <= partsPerMinute;
+  }
+
+  private async restoreOutbox() {
+    const store = this.simConfig.outboxStore;
+    if (!store) {
+      return;
+    }
+    try {
+      const serialized = await store.load();
+      serialized.forEach((data) => {
+        const sms = Sms.fromJSON(data, this);
+        this.trackSms(sms);
+        // Sent messages don't need the spooler, they just keep listening for their delivery reports
+        if (sms.hasIdleParts) {
+          this.spool(sms);
+        }
+      });
+      this.logger.info(`outbox - restored ${serialized.length} sms from the outbox store`);
+    } catch (error: any) {
+      this.logger.error(`outbox - unable to restore the outbox: ${error}`);
+    }
+  }
+  private trackSms(sms: Sms) {
+    if (!this.simConfig.outboxStore) {
+      return;
+    }
+    const persist = () => this.persistSms(sms);
+    this.persistHandlers.set(sms, persist);
+    sms.on('statuschange', persist);
+    this.persistSms(sms);
+  }
+  private persistSms(sms: Sms) {
+    const store = this.simConfig.outboxStore!;
+    const serialized = sms.toJSON();
+    (sms.isSettled ? store.remove(serialized.id) : store.save(serialized)).catch((error: any) => {
+      this.logger.error(`outbox - unable to persist sms ${serialized.id.split('-')[0]}: ${error}`);
+    });
+  }
+
+  private readHandler(index: number, storage?: string): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsedBuffer = parseBuffer(buffer);
+      if (isOk(buffer)) {
+        this.logger.debug(`readmessage - buffer : ${parsedBuffer}`);
+        const message = getStoredMessages(parsedBuffer, '+CMGR: ')[0];
+        try {
+          if (!message) {
+            throw new Error(`no message at index ${index}`);
+          }
+          const sms = new InboundSms(message.pdu, { storage, index, status: message.status });
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: {
+              raw: parsedBuffer,
+              processed: sms,
+            },
+          });
+        } catch (error: any) {
+          this.logger.error(`readmessage - unable to decode message ${index}: ${error}`);
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'failure',
+            error: {
+              type: 'parse-error',
+              content: parsedBuffer,
+            },
+          });
+        }
+        job.ended = true;
+      } else if (getError(buffer).isError) {
+        this.logger.error(`readmessage - unable to read message ${index}`);
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'command',
+            content: getError(buffer).message,
+            modemError: getError(buffer).modemError,
+          },
+        });
+        job.ended = true;
+      }
+    };
+  }
+  private storageHandler(storages: string[] = []): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsedBuffer = parseBuffer(buffer);
+      if (isOk(buffer)) {
+        this.logger.debug(`storagehandler - buffer : ${parsedBuffer}`);
+        const usage = getStorageUsage(parsedBuffer, storages);
+        job.callback!(
+          usage
+            ? {
+                uuid: job.uuid,
+                type: job.type,
+                result: 'success',
+                data: {
+                  raw: parsedBuffer,
+                  processed: usage,
+                },
+              }
+            : {
+                uuid: job.uuid,
+                type: job.type,
+                result: 'failure',
+                error: {
+                  type: 'parse-error',
+                  content: parsedBuffer,
+                },
+              },
+        );
+        job.ended = true;
+      } else if (getError(buffer).isError) {
+        this.logger.error(`storagehandler - storage command error`);
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'command',
+            content: getError(buffer).message,
+            modemError: getError(buffer).modemError,
+          },
+        });
+        job.ended = true;
+      }
+    };
+  }
+
+  // Internal Incoming Handlers (those who need access to the sim)
+
+  private newSmsHandler = async (notification: NewSmsNotification) => {
+    // Like direct messages, notifications are only processed once per buffer
+    if (this.handledUrcs.has(`+CMTI: ${notification.storage},${notification.index}`)) {
+      return;
+    }
+    this.handledUrcs.add(`+CMTI: ${notification.storage},${notification.index}`);
+    this.logger.verbose(`newsmshandler - fetching message ${notification.index} from ${notification.storage}`);
+    try {
+      const response = await this.readMessage(null, notification);
+      if (response.result === 'success' && response.data) {
+        if (this.simConfig.autoDeleteFromSim) {
+          // The message is now held in memory, freeing the slot before the storage gets full
+          this.deleteMessage(null, { index: notification.index })
+            .then((deleted) => {
+              if (deleted.result !== 'success') {
+                this.logger.warn(`newsmshandler - unable to delete message ${notification.index} from storage`);
               }
-            }
-          },
-        );
+            })
+            .catch((error: any) => {
+              this.logger.error(`newsmshandler - unable to delete message ${notification.index}: ${error}`);
+              this.emit('error', error instanceof Error ? error : new Error(error));
+            });
+        }
+        this.dispatchInboundSms(response.data.processed);
+      } else {
+        this.logger.error(`newsmshandler - unable to fetch message ${notification.index}`);
+        this.emit('error', response);
       }
+    } catch (error: any) {
+      // the transport failed to write the command
+      this.logger.error(`newsmshandler - unable to fetch message ${notification.index}: ${error}`);
+      this.emit('error', error instanceof Error ? error : new Error(error));
     }
-    this.busy = false;
+  };
+
+  private urcHandler = ({ line, position }: UrcNotification) => {
+    // The same buffer is handled every time data comes in, identical URCs (eg: RING) are told apart by their position
+    if (this.handledUrcs.has(`${position}:${line}`)) {
+      return;
+    }
+    this.handledUrcs.add(`${position}:${line}`);
+    if (line === 'RING') {
+      this.emit('ring');
+    } else if (line.startsWith('+CLIP: ')) {
+      // +CLIP follows every RING, the call is only notified once
+      if (!this.incomingCall) {
+        this.incomingCall = getIncomingCall(line);
+        this.logger.info(`urchandler - incoming call from ${this.incomingCall.number || 'unknown number'}`);
+        this.emit('incomingcall', this.incomingCall);
+      }
+    } else if (line.startsWith('+CLCC: ')) {
+      this.updateCall(getCallInfo(line));
+    } else if (callEndings.includes(line)) {
+      this.disconnectCalls();
+    } else if (socketClosedPattern.test(line)) {
+      const socket = this.sockets.get(parseInt(line, 10));
+      this.sockets.delete(parseInt(line, 10));
+      socket?.remoteClosed();
+    } else if (voltageUrcs.has(line)) {
+      const [cause, poweringDown] = voltageUrcs.get(line)!;
+      if (poweringDown) {
+        this.powerDown({ cause, line, supply: this.supply });
+      } else {
+        this.logger.warn(`urchandler - ${cause} warning, the module may power down soon`);
+        this.emit('voltagewarning', { cause, line, supply: this.supply });
+      }
+    } else if (['*PSUTTZ: ', '+CTZV: ', 'DST: '].some((prefix) => line.startsWith(prefix))) {
+      const update = getTimeUpdate(line);
+      this.logger.verbose(`urchandler - network time update: ${line}`);
+      this.emit('timeupdate', update);
+    } else if (line === '+PDP: DEACT') {
+      this.logger.warn(`urchandler - the network has deactivated the gprs context`);
+      this.closeSockets();
+    } else if (line.startsWith('+CUSD: ')) {
+      // the response to sendUssd is handled by its own job, anything else has been initiated by the network
+      if (this.queue.length && this.queue[0].type === 'ussd' && !this.queue[0].ended) {
+        return;
+      }
+      const [response] = getUssdResponses(`${line}\r\n`);
+      this.logger.info(`urchandler - network initiated ussd`);
+      this.emit('ussd', response);
+    }
+  };
+  private updateCall(call: CallInfo) {
+    const known = this.calls.get(call.index);
+    if (call.state === CallState.DISCONNECTED) {
+      // already reported by a NO CARRIER, BUSY or ATH
+      if (!known) {
+        return;
+      }
+      this.calls.delete(call.index);
+    } else if (known && known.state === call.state) {
+      return;
+    } else {
+      this.calls.set(call.index, call);
+    }
+    if (call.direction === CallDirection.INCOMING && ![CallState.INCOMING, CallState.WAITING].includes(call.state)) {
+      this.incomingCall = undefined;
+    }
+    this.logger.verbose(`callstate - call ${call.index} is now ${CallState[call.state]}`);
+    this.emit('callstate', call);
   }
-  private attachingEvents() {
-    this.logger.verbose(`events - attaching serialport events`);
-    this.port.on('open', () => {
-      this.emit('open');
+  private disconnectCalls() {
+    this.incomingCall = undefined;
+    this.calls.forEach((call) => {
+      this.logger.verbose(`callstate - call ${call.index} is now DISCONNECTED`);
+      this.emit('callstate', { ...call, state: CallState.DISCONNECTED });
     });
-    this.port.on('data', this.handleIncomingData);
-    // this.on('initialized', () => {});
-    this.on('network', this.networkInternalHandler);
-    this.on('brownout', this.brownoutHandler);
-    this.logger.verbose(`events - serialport events attached`);
+    this.calls.clear();
   }
-  private cancelEvent(uuid: string) {
-    this.logger.verbose(`timeout - event ${uuid.split('-')[0]} has timed out`);
-    this.logger.debug(`timeout - raw buffer at timeout : ${this.dataBuffer.replace(/(\r\n)|[\r\n]{1}/g, ' | ')}`);
-    // Find the job and calling its callback with the Error timeout
-    const job = this.queue.find((queuedJob) => {
-      return queuedJob.uuid === uuid;
+  /**
+   * Moves into the powered down state : every queued job fails, the state is reset and new commands fail right away until the modem boots again
+   */
+  private powerDown(event: PowerEvent) {
+    this.logger.error(`powerdown - modem has powered down (${event.line})`);
+    this.poweredDown = true;
+    this.initialized = false;
+    this.networkReady = false;
+    // AT+CSCLK is not kept across boots
+    this.sleepMode = SleepMode.DISABLED;
+    this.awake = true;
+    this.dataBuffer = '';
+    this.rawBuffer = Buffer.alloc(0);
+    this.handledUrcs.clear();
+    this.ipData.reset();
+    this.closeSockets();
+    this.disconnectCalls();
+    this.failJobs('powered-down', event.line);
+    this.emit('powerdown', event);
+  }
+  /**
+   * Empties the queue, every job that has not ended yet fails with the given error
+   */
+  private failJobs(type: string, content: string) {
+    const jobs = this.queue;
+    this.queue = [];
+    this.busy = false;
+    jobs.forEach((job) => {
+      clearTimeout(job.timeoutIdentifier);
+      if (!job.ended && job.callback) {
+        job.callback({ uuid: job.uuid, type: job.type, result: 'failure', error: { type, content } });
+      }
+      job.ended = true;
     });
-    if (job && job.callback) {
-      job.callback({
+  }
+  /**
+   * Resolves once the queue is empty and the outbox has nothing left to send, or false once the timeout has elapsed
+   */
+  private drain(timeout: number): Promise<boolean> {
+    const started = Date.now();
+    const isIdle = () => {
+      // the spooler only sends once the network is ready, there is no point waiting for it otherwise
+      const sending =
+        this.isNetworkReady &&
+        this.isInitialized &&
+        (this.isSpooling() ||
+          this.outbox.some(
+            (sms) => sms.sendFlag && sms.hasIdleParts && (!sms.sendAt || sms.sendAt.getTime() <= Date.now()),
+          ));
+      return !this.queue.length && !sending;
+    };
+    return new Promise((resolve) => {
+      const check = setInterval(() => {
+        const idle = isIdle();
+        if (idle || Date.now() - started >= timeout) {
+          clearInterval(check);
+          resolve(idle);
+        }
+      }, 100);
+    });
+  }
+  /**
+   * Guards the automatic unlock of initialize : a code the SIM has refused is never sent again, and the last attempt is left to a human
+   */
+  private async canTryCode(code: string, puk: boolean): Promise<boolean> {
+    if (this.rejectedCodes.has(code)) {
+      this.logger.error(
+        `initialize - the configured ${puk ? 'PUK' : 'pin'} has already been refused, not trying it again`,
+      );
+      return false;
+    }
+    const attempts = await this.getPinAttemptsRemaining(null, {});
+    const remaining = attempts.data ? (attempts.data.processed as PinAttempts)[puk ? 'puk' : 'pin'] : undefined;
+    if (remaining !== undefined && remaining < 2) {
+      this.logger.error(`initialize - ${remaining} ${puk ? 'PUK' : 'pin'} attempt left, not risking it`);
+      return false;
+    }
+    return true;
+  }
+  private unlockHandler: JobHandler = (buffer, job) => {
+    const parsedBuffer = parseBuffer(buffer);
+    this.logger.debug(`unlocksim - ${parsedBuffer}`);
+    if (getError(buffer).isError) {
+      // pin (or puk) is probably wrong, we need to callback
+      this.logger.error(`unlocksim - WRONG CODE ! CHECK PIN / PUK ASAP`);
+      job.callback!({
         uuid: job.uuid,
         type: job.type,
         result: 'failure',
         error: {
-          type: 'unhandled',
-          content: parseBuffer(this.dataBuffer),
+          type: 'sim-unlock',
+          content: {
+            status: InitializeStatus.PIN_INCORRECT,
+            message: getError(buffer).message,
+          },
+          modemError: getError(buffer).modemError,
         },
       });
-      this.emit('error', {
+      // the +CPIN: SIM PUK following a last wrong pin must not be reported twice
+      job.ended = true;
+      return;
+    }
+    // if not error, it can be "okay", we just log it as we're waiting for the +CPIN info
+    if (isOk(buffer)) {
+      this.logger.verbose(`unlocksim - PIN accepted, waiting on SIM unlock`);
+    }
+    // Now, we're looking into the last part of parsedData and search for "+CPIN: "
+    // The line must be complete, UART can cut the status in the middle
+    if (parsedBuffer.length && parsedBuffer[parsedBuffer.length - 1].startsWith('+CPIN: ') && buffer.endsWith('\r\n')) {
+      // we extract the status, it looks a lot like checkpinrequired
+      const key = parsedBuffer[parsedBuffer.length - 1].split('+CPIN: ').length
+        ? parsedBuffer[parsedBuffer.length - 1].split('+CPIN: ')[1]
+        : null;
+      const status = key ? getInitializationStatus(key) : InitializeStatus.ERROR;
+      this.logger.verbose(`checkpinrequired - result : ${getStatusMessage(status)} `);
+      if (status === InitializeStatus.READY) {
+        this.simUnlocked = true;
+        this.rejectedCodes.clear();
+      }
+      job.callback!({
         uuid: job.uuid,
-        type: job.type,
-        result: 'failure',
-        error: {
-          type: 'unhandled',
-          content: parseBuffer(this.dataBuffer),
-        },
-      } as ModemResponse<ParsedData>);
+        type: 'pin-check',
+        result: status === InitializeStatus.READY ? 'success' : 'failure',
+        data:
+          status === InitializeStatus.READY
+            ? {
+                raw: buffer,
+                processed: {
+                  status,
+                  message: getStatusMessage(status),
+                },
+              }
+            : undefined,
+        error:
+          status !== InitializeStatus.READY
+            ? {
+                type: 'pin-required',
+                content: {
+                  status,
+                  message: getStatusMessage(status),
+                },
+              }
+            : undefined,
+      });
+      job.ended = true;
     }
-    if (job && job.type === 'incoming') {
-      // this was an unhandled event, emitting the event
-      this.emit('incoming', {
+  };
+  private clockHandler: JobHandler = (buffer, job, emitter) => {
+    sneakyDelivery(buffer, emitter);
+    const parsedBuffer = parseBuffer(buffer);
+    if (isOk(buffer)) {
+      const line = parsedBuffer.find((value) => value.startsWith('+CCLK: '));
+      const date = line ? getClock(line) : undefined;
+      if (!date) {
+        this.logger.error('getclock - parse error: +CCLK field');
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: { type: 'parse-error', content: parsedBuffer },
+        });
+        job.ended = true;
+        return;
+      }
+      job.callback!({
+        uuid: job.uuid,
+        type: job.type,
+        result: 'success',
+        data: { raw: parsedBuffer, processed: date },
+      });
+      job.ended = true;
+    } else if (getError(buffer).isError) {
+      this.logger.error(`getclock - unable to read the modem clock`);
+      job.callback!({
         uuid: job.uuid,
         type: job.type,
         result: 'failure',
-        error: {
-          type: 'unhandled',
-          content: parseBuffer(this.dataBuffer),
-        },
-      } as ModemResponse<ParsedData>);
+        error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+      });
+      job.ended = true;
     }
-    if (job) {
-      this.emit('timeout', job);
+  };
+  private closeSockets() {
+    this.ipStackReady = false;
+    const sockets = [...this.sockets.values()];
+    this.sockets.clear();
+    sockets.forEach((socket) => socket.remoteClosed());
+  }
+  /**
+   * Queues a session : once it reaches the head of the queue, the session runs its own commands ahead of every other job until it resolves
+   */
+  private execSession(
+    callback: ModemCallback,
+    type: string,
+    timeout: number,
+    session: (job: JobItem) => Promise<ModemResponse>,
+  ) {
+    const end = (job: JobItem, response: ModemResponse) => {
+      // a timed out session has already been called back and removed from the queue
+      if (!this.queue.includes(job)) {
+        return;
+      }
+      job.callback!(response);
+      job.ended = true;
+      this.nextEvent();
+    };
+    this.execCommand(callback, {
+      command: '',
+      type,
+      timeout,
+      // URCs landing between two commands of the session
+      handler: (buffer, job, emitter) => sneakyDelivery(buffer, emitter),
+      onStart: (job) => {
+        session(job)
+          .then((response) => end(job, response))
+          .catch((error: any) =>
+            end(job, {
+              uuid: job.uuid,
+              type: job.type,
+              result: 'failure',
+              error: { type: 'session', content: `${error}` },
+            }),
+          );
+      },
+    });
+  }
+  private async sessionCommand(session: JobItem, params: CommandParams): Promise<ModemResponse> {
+    if (!this.queue.includes(session)) {
+      throw new Error(`${session.type} session timed out`);
     }
-    this.queue = this.queue.filter((item) => {
-      return !(item.uuid === uuid);
+    return this.execCommand(null, { ...params, immediate: true });
+  }
+  private async openBearer(session: JobItem): Promise<ModemResponse | void> {
+    const query = await this.sessionCommand(session, { command: 'AT+SAPBR=2,1', type: 'bearer-status' });
+    const status = query.data
+      ? parseBuffer(query.data.raw as string).find((line) => line.startsWith('+SAPBR: '))
+      : undefined;
+    if (status && status.split(',')[1] === '1') {
+      return;
+    }
+    const gprs = this.simConfig.gprs;
+    if (!gprs) {
+      throw new Error('no APN configured, simConfig.gprs is required');
+    }
+    const settings = [
+      ['Contype', 'GPRS'],
+      ['APN', gprs.apn],
+      ...(gprs.user ? [['USER', gprs.user]] : []),
+      ...(gprs.password ? [['PWD', gprs.password]] : []),
+    ];
+    for (const [key, value] of settings) {
+      const set = await this.sessionCommand(session, {
+        command: `AT+SAPBR=3,1,"${key}","${value}"`,
+        type: 'bearer-config',
+      });
+      if (set.result !== 'success') {
+        return set;
+      }
+    }
+    this.logger.verbose(`openbearer - opening gprs bearer on ${gprs.apn}`);
+    const opened = await this.sessionCommand(session, { command: 'AT+SAPBR=1,1', type: 'bearer-open', timeout: 85000 });
+    if (opened.result !== 'success') {
+      return opened;
+    }
+  }
+  /**
+   * Runs a phonebook command with the TE character set (AT+CSCS) matching the encoding, IRA being restored afterwards as the other commands (eg: USSD) expect it
+   */
+  private phonebookSession(callback: ModemCallback, type: string, encoding: PhonebookEncoding, params: CommandParams) {
+    this.execSession(callback, type, 30000, async (session) => {
+      if (encoding === 'UCS2') {
+        const charset = await this.sessionCommand(session, { command: 'AT+CSCS="UCS2"', type: 'charset' });
+        if (charset.result !== 'success') {
+          return { ...charset, uuid: session.uuid, type: session.type };
+        }
+      }
+      try {
+        const response = await this.sessionCommand(session, params);
+        return { ...response, uuid: session.uuid, type: session.type };
+      } finally {
+        if (encoding === 'UCS2') {
+          await this.sessionCommand(session, { command: 'AT+CSCS="IRA"', type: 'charset' }).catch(() => undefined);
+        }
+      }
     });
-    this.dataBuffer = '';
-    this.busy = false;
-    this.nextEvent();
   }
-  private clear() {
-    this.logger.debug('clear - clearing buffer');
-    if (this.queue.length && this.queue[0].timeoutIdentifier) {
-      clearTimeout(this.queue[0].timeoutIdentifier);
+  private phonebookHandler(prefix: string, encoding: PhonebookEncoding): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsedBuffer = parseBuffer(buffer);
+      const error = getError(buffer);
+      // nothing matching the search (or the range) is reported as a not found error by some firmwares
+      if (isOk(buffer) || (error.isError && error.modemError && error.modemError.code === 22)) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'success',
+          data: { raw: parsedBuffer, processed: getPhonebookEntries(parsedBuffer, prefix, encoding) },
+        });
+        job.ended = true;
+      } else if (error.isError) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: { type: 'command', content: error.message, modemError: error.modemError },
+        });
+        job.ended = true;
+      }
+    };
+  }
+  private async openIpStack(session: JobItem): Promise<ModemResponse | void> {
+    const gprs = this.simConfig.gprs;
+    if (!gprs) {
+      throw new Error('no APN configured, simConfig.gprs is required');
     }
-    this.busy = false;
-    this.dataBuffer = '';
-    this.queue.shift();
-    this.nextEvent();
+    this.logger.verbose(`openipstack - bringing the ip stack up on ${gprs.apn}`);
+    const steps: CommandParams[] = [
+      // whatever state the stack is in, it goes back to IP INITIAL
+      { command: 'AT+CIPSHUT', type: 'ip-shut', handler: this.expectHandler(/^SHUT OK$/), timeout: 65000 },
+      { command: 'AT+CIPMUX=1', type: 'ip-mux' },
+      { command: `AT+CSTT="${gprs.apn}","${gprs.user || ''}","${gprs.password || ''}"`, type: 'ip-apn' },
+      { command: 'AT+CIICR', type: 'ip-connect', timeout: 85000 },
+      // the local address is the only answer, there is no OK
+      { command: 'AT+CIFSR', type: 'ip-address', handler: this.expectHandler(/^\d+\.\d+\.\d+\.\d+$/) },
+    ];
+    for (const step of steps) {
+      const response = await this.sessionCommand(session, step);
+      if (response.result !== 'success') {
+        return response;
+      }
+    }
+    this.ipStackReady = true;
   }
-
-  private networkInternalHandler = (network: CheckNetworkData) => {
-    this.logger.verbose(`networkhandler - CREG status has changed: ${network.networkStatus}`);
-    if (!this.networkMonitorInterval) {
-      this.logger.verbose(`networkhandler - setting network monitoring watchdog`);
-      this.networkMonitorInterval = this.setupNetworkMonitor();
+  private async socketSession(session: JobItem, params: SocketOptions): Promise<ModemResponse<ModemSocket>> {
+    const { host, port, protocol = 'TCP', timeout = 60000 } = params;
+    const failure = (response: ModemResponse) => ({ ...response, uuid: session.uuid, type: session.type });
+    if (!this.ipStackReady) {
+      const stack = await this.openIpStack(session);
+      if (stack) {
+        return failure(stack);
+      }
     }
-    if ([ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(network.networkStatus) && !this.networkReady) {
-      this.logger.warn(`networkhandler - network is now ready`);
-      this.networkReady = true;
+    const link = [0, 1, 2, 3, 4, 5].find((item) => !this.sockets.has(item));
+    if (link === undefined) {
+      return failure({
+        uuid: session.uuid,
+        type: session.type,
+        result: 'failure',
+        error: { type: 'socket', content: 'every connection is already in use' },
+      });
     }
-    if (
-      ![ConnectionStatus.REGISTERED, ConnectionStatus.IN_PROGRESS, ConnectionStatus.ROAMING].includes(
-        network.networkStatus,
-      ) &&
-      this.networkReady
-    ) {
-      this.logger.warn(`networkhandler - network lost, status: ${network.networkStatus}`);
-      this.logger.verbose(`networkhandler - ${4 - this.networkRetry} checks remaining before modem reset`);
-      this.networkReady = false;
-      this.networkRetry += 1;
-    } else {
-      if (this.networkReady) {
-        this.logger.debug(`networkhandler - network online`);
-        this.networkRetry = 0;
-      } else {
-        this.logger.warn(`networkhandler - waiting for network, status: ${network.networkStatus}`);
-        this.logger.verbose(`networkhandler - ${4 - this.networkRetry} checks remaining before modem reset`);
-        this.networkRetry += 1;
+    const started = await this.sessionCommand(session, {
+      command: `AT+CIPSTART=${link},"${protocol}","${host}","${port}"`,
+      type: 'socket-start',
+      handler: this.expectHandler(
+        new RegExp(`^${link}, (CONNECT OK|ALREADY CONNECT)$`),
+        new RegExp(`^${link}, CONNECT FAIL$`),
+      ),
+      timeout,
+    });
+    if (started.result !== 'success') {
+      return failure(started);
+    }
+    const socket = new ModemSocket(link, { host, port, protocol }, this);
+    this.sockets.set(link, socket);
+    socket.once('close', () => {
+      if (this.sockets.get(link) === socket) {
+        this.sockets.delete(link);
+      }
+    });
+    this.logger.verbose(`opensocket - ${protocol} ${host}:${port} open on connection ${link}`);
+    return {
+      uuid: session.uuid,
+      type: session.type,
+      result: 'success',
+      data: { raw: started.data!.raw, processed: socket },
+    };
+  }
+  /**
+   * Waits for the line telling the command succeeded, for the commands answering something else than OK
+   */
+  private expectHandler(success: RegExp, failure?: RegExp): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const completeLines = parseBuffer(buffer.substring(0, buffer.lastIndexOf('\n') + 1));
+      const line = completeLines.find((item) => success.test(item));
+      if (line) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'success',
+          data: { raw: completeLines, processed: line },
+        });
+        job.ended = true;
+      } else if (getError(buffer).isError || (failure && completeLines.some((item) => failure.test(item)))) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'command',
+            content: getError(buffer).message || completeLines.join(' - '),
+            modemError: getError(buffer).modemError,
+          },
+        });
+        job.ended = true;
+      }
+    };
+  }
+  private async httpSession(session: JobItem, params: HttpRequestOptions): Promise<ModemResponse<HttpResponse>> {
+    const { method = 'GET', url, headers = {}, body, timeout = 60000 } = params;
+    const failure = (response: ModemResponse) => ({ ...response, uuid: session.uuid, type: session.type });
+    const bearer = await this.openBearer(session);
+    if (bearer) {
+      return failure(bearer);
+    }
+    // a previous session may have been left open
+    await this.sessionCommand(session, { command: 'AT+HTTPTERM', type: 'http-term' });
+    const initialized = await this.sessionCommand(session, { command: 'AT+HTTPINIT', type: 'http-init' });
+    if (initialized.result !== 'success') {
+      return failure(initialized);
+    }
+    try {
+      const contentType = Object.keys(headers).find((name) => name.toLowerCase() === 'content-type');
+      const userData = Object.keys(headers)
+        .filter((name) => name !== contentType)
+        .map((name) => `${name}: ${headers[name]}`)
+        .join('\\r\\n');
+      const parameters = [
+        'AT+HTTPPARA="CID",1',
+        `AT+HTTPPARA="URL","${url}"`,
+        // the SSL setting outlives AT+HTTPTERM, it is always set
+        `AT+HTTPSSL=${url.toLowerCase().startsWith('https://') ? 1 : 0}`,
+        ...(contentType ? [`AT+HTTPPARA="CONTENT","${headers[contentType]}"`] : []),
+        ...(userData ? [`AT+HTTPPARA="USERDATA","${userData}"`] : []),
+      ];
+      for (const command of parameters) {
+        const set = await this.sessionCommand(session, { command, type: 'http-para' });
+        if (set.result !== 'success') {
+          return failure(set);
+        }
+      }
+      if (body !== undefined) {
+        const uploaded = await this.sessionCommand(session, {
+          command: `AT+HTTPDATA=${Buffer.byteLength(body)},10000`,
+          type: 'http-data',
+          handler: this.httpDataHandler(body),
+          timeout: 15000,
+        });
+        if (uploaded.result !== 'success') {
+          return failure(uploaded);
+        }
+      }
+      const action = (await this.sessionCommand(session, {
+        command: `AT+HTTPACTION=${httpMethods.indexOf(method)}`,
+        type: 'http-action',
+        handler: this.httpActionHandler,
+        timeout,
+      })) as ModemResponse<HttpActionResult>;
+      if (action.result !== 'success' || !action.data) {
+        return failure(action);
+      }
+      const { status, length } = action.data.processed;
+      // 6xx statuses are reported by the modem itself (network error, DNS error...)
+      if (status >= 600) {
+        return failure({
+          ...action,
+          result: 'failure',
+          error: { type: 'http', content: `modem http error ${status}` },
+        });
+      }
+      const head = await this.sessionCommand(session, {
+        command: 'AT+HTTPHEAD',
+        type: 'http-head',
+        handler: this.httpReadHandler('+HTTPHEAD: '),
+      });
+      const read =
+        length > 0 && method !== 'HEAD'
+          ? await this.sessionCommand(session, {
+              command: 'AT+HTTPREAD',
+              type: 'http-read',
+              handler: this.httpReadHandler('+HTTPREAD: '),
+              timeout,
+            })
+          : undefined;
+      if (read && read.result !== 'success') {
+        return failure(read);
+      }
+      this.logger.verbose(`httprequest - ${method} ${url} : ${status}`);
+      return {
+        uuid: session.uuid,
+        type: session.type,
+        result: 'success',
+        data: {
+          raw: action.data.raw,
+          processed: {
+            status,
+            headers: head.result === 'success' ? getHttpHeaders(head.data!.processed.toString()) : {},
+            body: read ? read.data!.processed.toString() : '',
+            rawBody: read ? read.data!.processed : Buffer.alloc(0),
+            length,
+          },
+        },
+      };
+    } finally {
+      await this.sessionCommand(session, { command: 'AT+HTTPTERM', type: 'http-term' }).catch(() => undefined);
+    }
+  }
+  private httpDataHandler(body: string): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsedBuffer = parseBuffer(buffer);
+      if (!job.subcommandIndex && parsedBuffer.includes('DOWNLOAD')) {
+        // the modem now waits for exactly the announced number of bytes
+        job.subcommandIndex = 1;
+        this.port.write(body);
+      }
+      if (isOk(buffer) && job.subcommandIndex) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'success',
+          data: { raw: parsedBuffer, processed: parsedBuffer },
+        });
+        job.ended = true;
+      } else if (getError(buffer).isError) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+        });
+        job.ended = true;
       }
+    };
+  }
+  private httpActionHandler: JobHandler = (buffer, job, emitter) => {
+    sneakyDelivery(buffer, emitter);
+    const parsedBuffer = parseBuffer(buffer);
+    // the OK only acknowledges the request, the +HTTPACTION URC comes once the server has answered
+    const action = buffer.endsWith('\r\n') ? parsedBuffer.find((line) => line.startsWith('+HTTPACTION: ')) : undefined;
+    if (action && parsedBuffer.includes('OK')) {
+      job.callback!({
+        uuid: job.uuid,
+        type: job.type,
+        result: 'success',
+        data: { raw: parsedBuffer, processed: getHttpAction(action) },
+      });
+      job.ended = true;
+    } else if (getError(buffer).isError) {
+      job.callback!({
+        uuid: job.uuid,
+        type: job.type,
+        result: 'failure',
+        error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+      });
+      job.ended = true;
     }
-    if (this.networkRetry > 3) {
-      this.logger.warn(`networkhandler - network is hanging, resetting`);
-      this.resetModem(null, { reInitialize: true });
-    }
-  };
-
-  private brownoutHandler = () => {
-    if (this.brownoutNumber > 3) {
-      this.resetModem(null, { reInitialize: true });
-    }
-    this.logger.warn('brownout - modem is unreachable, retrying');
-    this.logger.verbose(`brownout - ${4 - this.brownoutNumber} checks remaining before modem reset`);
-    this.brownoutNumber += 1;
   };
-
-  // private brownoutHandler = () => {
-  //   this.resetModem(undefined, undefined, true);
-  // };
-
-  private setupNetworkMonitor() {
-    return setInterval(async () => {
-      if (this.initialized) {
-        // preventing to clutter the networkRetry when modem isn't initialized
-        this.checkNetwork(null, {});
+  private httpReadHandler(prefix: string): JobHandler {
+    return (buffer, job, emitter) => {
+      // the payload is raw data, it may contain anything including line breaks and bytes that are not UTF-8 :
+      // it is read from the undecoded bytes, only its announced length tells where it ends
+      const raw = this.rawBuffer;
+      const start = raw.indexOf(prefix);
+      const headerEnd = start >= 0 ? raw.indexOf('\r\n', start) : -1;
+      if (headerEnd >= 0) {
+        const length = parseInt(raw.subarray(start + prefix.length, headerEnd).toString(), 10);
+        const payload = raw.subarray(headerEnd + 2);
+        if (payload.length >= length && payload.subarray(length).toString().includes('OK\r\n')) {
+          job.callback!({
+            uuid: job.uuid,
+            type: job.type,
+            result: 'success',
+            data: {
+              raw: parseBuffer(raw.subarray(0, headerEnd).toString()),
+              processed: Buffer.from(payload.subarray(0, length)),
+            },
+          });
+          job.ended = true;
+        }
+        return;
       }
-    }, 60000);
+      sneakyDelivery(buffer, emitter);
+      if (getError(buffer).isError) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+        });
+        job.ended = true;
+      }
+    };
   }
-  private brownoutDetector() {
-    return setInterval(async () => {
-      const result = await this.checkModem(null, {});
-      if ((result as ModemResponse).result === 'failure' || !this.initialized) {
-        this.emit('brownout');
-      } else {
-        this.brownoutNumber = 0;
+  private ussdRequest(callback: ModemCallback, text: string, timeout: number) {
+    this.logger.verbose(`sendussd - sending ${text}`);
+    this.execCommand(callback, {
+      command: `AT+CUSD=1,"${text}",15`,
+      type: 'ussd',
+      handler: this.ussdHandler(),
+      timeout,
+    });
+  }
+  private ussdHandler(): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsedBuffer = parseBuffer(buffer);
+      // the OK only acknowledges the request, the network response comes later as a +CUSD URC
+      const [response] = getUssdResponses(buffer);
+      if (response && parsedBuffer.includes('OK')) {
+        this.logger.debug(`ussdhandler - ussd status ${UssdStatus[response.status]}`);
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'success',
+          data: {
+            raw: parsedBuffer,
+            processed: response,
+          },
+        });
+        job.ended = true;
+      } else if (getError(buffer).isError) {
+        this.logger.error(`ussdhandler - ussd request failed`);
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'command',
+            content: getError(buffer).message,
+            modemError: getError(buffer).modemError,
+          },
+        });
+        job.ended = true;
       }
-    }, 20000);
+    };
   }
-
-  private spooler() {
-    return setInterval(() => {
-      if (this.isNetworkReady && this.isInitialized) {
-        // if there is something inside the inbox, we check the first element
-        if (this.outbox.length) {
-          const sms = this.outbox[0];
-          if (sms.sendFlag && sms.status === SmsStatus.IDLE) {
-            sms.sendFlag = false;
-            sms.send();
-          } else if (sms.status === SmsStatus.SENT || SmsStatus.DELIVERED) {
-            spliceFromSpooler(sms.id, this.outbox);
-          } else if (!sms.sendFlag && sms.status === SmsStatus.IDLE) {
-            // We push it at the end of the line
-            this.outbox.push(this.outbox.shift()!);
-          }
-        }
+  private callHandler(): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsedBuffer = parseBuffer(buffer);
+      const ending = parsedBuffer.find((line) => [...callEndings, 'NO DIALTONE'].includes(line));
+      if (isOk(buffer)) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'success',
+          data: {
+            raw: parsedBuffer,
+            processed: parsedBuffer,
+          },
+        });
+        job.ended = true;
+      } else if (ending && buffer.endsWith('\r\n')) {
+        this.logger.warn(`callhandler - call failed: ${ending}`);
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'call',
+            content: ending,
+          },
+        });
+        job.ended = true;
+      } else if (getError(buffer).isError) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'command',
+            content: getError(buffer).message,
+            modemError: getError(buffer).modemError,
+          },
+        });
+        job.ended = true;
       }
-    }, 500);
+    };
   }
 
-  // Internal Incoming Handlers (those who need access to the sim)
-
   private incomingHandler: JobHandler = async (buffer, job, emitter, logger) => {
     try {
       logger?.verbose(`incominghandler - handling incoming data`);
@@ -944,6 +3828,12 @@ class Sim800L extends EventEmitter {
       // Incoming handler when there is no queue, taking care of emitting events (eg: sms... delivery report...)
       // There are no callbacks for the incomingHanlder as it is initiated by the server itself, but it emits events
       sneakyDelivery(buffer, emitter);
+      if (this.poweredDown && (parsedData.includes('RDY') || isNetworkReadyIncomingBuffer(parsedData))) {
+        logger?.warn(`incominghandler - modem has booted again, initializing`);
+        this.initialize(null, {});
+        job.ended = true;
+        return;
+      }
       if (isNetworkReadyIncomingBuffer(parsedData)) {
         logger?.debug(`incominghandler - +CREG network ready, updating`);
         if (emitter) {
@@ -952,24 +3842,30 @@ class Sim800L extends EventEmitter {
         // MISSING CALLBACKS
         job.ended = true;
       }
-      if (isNewSms(parsedData)) {
-        logger?.debug(`incominghandler - +CMTI new sms, handling`);
-        // console.log(parsedData);
+      if (isNewSms(parsedData) && buffer.endsWith('\r\n')) {
+        // sneakyDelivery already forwarded the notification
+        logger?.debug(`incominghandler - +CMTI new sms, handled`);
+        job.ended = true;
+      }
+      if (isDirectSms(parsedData) && getDirectSms(buffer).length) {
+        // sneakyDelivery already forwarded the message, we just need to wait for its PDU line
+        logger?.debug(`incominghandler - +CMT direct sms, handled`);
         job.ended = true;
       }
       if (isDeliveryReport(parsedData)) {
-        // If CDS key is not the last key of the buffer, we can emit a DeliveryReportRawObject and end the job
+        // sneakyDelivery already emitted the report, if CDS key is not the last key of the buffer we can end the job
         const cdsIndex = parsedData.findIndex((key) => {
           return key.startsWith('+CDS: ');
         });
         if (parsedData.length > cdsIndex + 1 && buffer.endsWith('\r\n')) {
-          this.emit('deliveryreport', {
-            shortId: parseInt(parsedData[cdsIndex].replace('+CDS: ', ''), 10),
-            data: parsedData[cdsIndex + 1],
-          } as DeliveryReportRawObject);
           job.ended = true;
         }
       }
+      if (buffer.endsWith('\r\n') && parsedData.length && parseBuffer(buffer.replace(ussdPattern, '')).every(isUrc)) {
+        // sneakyDelivery already forwarded the URCs
+        logger?.debug(`incominghandler - ${parsedData.join(', ')}, handled`);
+        job.ended = true;
+      }
       if (isNetworkInfo(parsedData)) {
         logger?.debug('incominghandler - +CREG information, checking status');
         this.checkNetwork(null, {});
@@ -1006,6 +3902,14 @@ export const promisify: PromisifyFunctionSignature = <T>(
   });
 };
 
+function isTransport(options: SerialPortOpenOptions<any> | Transport): options is Transport {
+  return (
+    typeof (options as Transport).open === 'function' &&
+    typeof (options as Transport).write === 'function' &&
+    typeof (options as Transport).on === 'function'
+  );
+}
+
 function getStatusMessage(status: InitializeStatus): string {
   switch (status) {
     case InitializeStatus.READY:
@@ -1015,7 +3919,7 @@ function getStatusMessage(status: InitializeStatus): string {
     case InitializeStatus.PIN_INCORRECT:
       return "please think twice before hitting refresh mate, you'll probably lock your sim card";
     case InitializeStatus.NEED_PUK:
-      return 'told ya';
+      return 'the SIM card is blocked after too many wrong pins, please provide the PUK code and a new pin number to unlock it';
     case InitializeStatus.ERROR:
       return "can't figure out what's wrong, please check if sim is properly inserted";
   }
@@ -1084,7 +3988,8 @@ export function getError(buffer: string): ModemErrorRaw {
       // extracting message
       field.splice(0, 1);
       const message = field.length ? field.join(' ') : undefined;
-      return { isError: true, raw: parsedData, ...{ message } };
+      const modemError = parseModemError(parsedData[parsedData.length - 1]);
+      return { isError: true, raw: parsedData, ...{ message, modemError } };
     } else if (parsedData && parsedData.length) {
       return parsedData[parsedData.length - 1] === 'ERROR'
         ? { isError: true, message: `${parsedData.join(' - ')}`, raw: parsedData }
@@ -1102,6 +4007,74 @@ function isNetworkReadyIncomingBuffer(parsedData: ParsedData): boolean {
 function isNewSms(parsedData: ParsedData): boolean {
   return findKey(parsedData, '+CMTI: ');
 }
+/**
+ * Extracts the storage and index of every +CMTI new message indication found in the buffer
+ *
+ * @param {ParsedData} parsedData - the parsed buffer input
+ * @returns {NewSmsNotification[]} An array of notifications, in order of arrival
+ */
+export function getNewSmsNotifications(parsedData: ParsedData): NewSmsNotification[] {
+  return parsedData
+    .filter((value) => value.startsWith('+CMTI: '))
+    .map((value) => {
+      const [storage, index] = value.replace('+CMTI: ', '').split(',');
+      return { storage: storage.replace(/"/g, ''), index: parseInt(index, 10) };
+    })
+    .filter((notification) => !isNaN(notification.index));
+}
+/**
+ * Extracts the index, status and PDU of the stored messages returned by +CMGR or +CMGL (PDU mode)
+ *
+ * @param {ParsedData} parsedData - the parsed buffer input
+ * @param {string} key - the response key preceding each message ('+CMGR: ' or '+CMGL: ')
+ * @returns {StoredMessage[]} An array of raw stored messages
+ */
+export function getStoredMessages(parsedData: ParsedData, key: '+CMGR: ' | '+CMGL: '): StoredMessage[] {
+  const messages: StoredMessage[] = [];
+  parsedData.forEach((value, i) => {
+    if (value.startsWith(key) && parsedData.length > i + 1) {
+      const fields = value.replace(key, '').split(',');
+      // +CMGL lines start with the index of the message, +CMGR lines with its status
+      if (key === '+CMGL: ') {
+        messages.push({
+          index: parseInt(fields[0], 10),
+          status: parseInt(fields[1], 10),
+          pdu: parsedData[i + 1],
+        });
+      } else {
+        messages.push({ status: parseInt(fields[0], 10), pdu: parsedData[i + 1] });
+      }
+    }
+  });
+  return messages;
+}
+/**
+ * Parses the +CPMS response, with (query) or without (selection) the storage names
+ *
+ * @param {ParsedData} parsedData - the parsed buffer input
+ * @param {string[]} [storages=[]] - the selected storages, used when the response does not contain their names
+ * @returns {StorageUsage | null} The usage of the read, write and receive storages, null if the response can't be parsed
+ */
+export function getStorageUsage(parsedData: ParsedData, storages: string[] = []): StorageUsage | null {
+  const field = parsedData.find((value) => value.startsWith('+CPMS: '));
+  if (!field) {
+    return null;
+  }
+  const values = field.replace('+CPMS: ', '').split(',');
+  const named = values.length >= 9;
+  const infos: StorageInfo[] = [0, 1, 2].map((i) => {
+    const offset = named ? i * 3 : i * 2;
+    return {
+      storage: named ? values[offset].replace(/"/g, '') : storages[i],
+      used: parseInt(values[named ? offset + 1 : offset], 10),
+      total: parseInt(values[named ? offset + 2 : offset + 1], 10),
+    };
+  });
+  if (infos.some((info) => isNaN(info.used) || isNaN(info.total))) {
+    return null;
+  }
+  return { read: infos[0], write: infos[1], receive: infos[2] };
+}
 function isNetworkInfo(parsedData: ParsedData): boolean {
   return findKey(parsedData, '+CREG: ');
 }
@@ -1113,8 +4086,59 @@ function findKey(parsedData: ParsedData, key: string) {
 function isDeliveryReport(parsedData: ParsedData) {
   return findKey(parsedData, '+CDS: ');
 }
-export function sneakyDelivery(buffer: string, emitter: EventEmitter) {
+function isDirectSms(parsedData: ParsedData) {
+  return findKey(parsedData, '+CMT: ');
+}
+/**
+ * Extracts the complete +CMT direct-route messages (header line followed by the PDU line) found in the buffer
+ *
+ * @param {string} buffer - the raw buffer input
+ * @returns {DirectSmsRawObject[]} An array of raw direct messages, empty if none is complete yet
+ */
+export function getDirectSms(buffer: string): DirectSmsRawObject[] {
+  const parsedData = parseBuffer(buffer);
+  const messages: DirectSmsRawObject[] = [];
+  parsedData.forEach((value, i) => {
+    // The PDU line must be there and terminated, UART likes to cut it in the middle
+    if (
+      value.startsWith('+CMT: ') &&
+      parsedData.length > i + 1 &&
+      (parsedData.length > i + 2 || buffer.endsWith('\r\n'))
+    ) {
+      const fields = value.replace('+CMT: ', '').split(',');
+      messages.push({ length: parseInt(fields[fields.length - 1], 10), data: parsedData[i + 1] });
+    }
+  });
+  return messages;
+}
+export function sneakyDelivery(buffer: string, emitter: TypedEventEmitter<Sim800LEvents>) {
   const parsedData = parseBuffer(buffer);
+  if (isNewSms(parsedData)) {
+    // +CMTI notifications can land in any job buffer too, only complete lines are considered as UART may cut the index
+    const completeLines = parseBuffer(buffer.substring(0, buffer.lastIndexOf('\n') + 1));
+    getNewSmsNotifications(completeLines).forEach((notification) => emitter.emit('newsms', notification));
+  }
+  if (isDirectSms(parsedData)) {
+    // Direct-route messages can land in any job buffer as well, Sim800L deduplicates them
+    getDirectSms(buffer).forEach((message) => emitter.emit('directsms', message));
+  }
+  // complete lines only, their position in the buffer lets Sim800L tell repeated URCs (eg: RING) apart
+  const completeBuffer = buffer.substring(0, buffer.lastIndexOf('\n') + 1);
+  const lines = /[^\r\n]+/g;
+  let match = lines.exec(completeBuffer);
+  while (match) {
+    if (isUrc(match[0])) {
+      emitter.emit('urc', { line: match[0], position: match.index });
+    }
+    match = lines.exec(completeBuffer);
+  }
+  // USSD texts may span several lines
+  const ussd = new RegExp(ussdPattern);
+  match = ussd.exec(completeBuffer);
+  while (match) {
+    emitter.emit('urc', { line: match[0].trim(), position: match.index });
+    match = ussd.exec(completeBuffer);
+  }
   if (isDeliveryReport(parsedData)) {
     // If CDS key is not the last key of the buffer, we can emit a DeliveryReportRawObject and end the job
     const cdsIndex = parsedData.findIndex((key) => {
@@ -1128,6 +4152,419 @@ export function sneakyDelivery(buffer: string, emitter: EventEmitter) {
     }
   }
 }
+const listFilterMap = new Map<SmsListFilter, number>([
+  ['REC UNREAD', 0],
+  ['REC READ', 1],
+  ['STO UNSENT', 2],
+  ['STO SENT', 3],
+  ['ALL', 4],
+]);
+// URCs dispatched by the urcHandler of Sim800L, wherever they land
+const urcPrefixes = [
+  'RING',
+  '+CLIP: ',
+  '+CLCC: ',
+  'NO CARRIER',
+  'BUSY',
+  'NO ANSWER',
+  '+HTTPACTION: ',
+  '+PDP: DEACT',
+  'UNDER-VOLTAGE ',
+  'OVER-VOLTAGE ',
+  'NORMAL POWER DOWN',
+  '*PSUTTZ: ',
+  '+CTZV: ',
+  'DST: ',
+];
+const callEndings = ['NO CARRIER', 'BUSY', 'NO ANSWER'];
+// the free text identity answers (manufacturer, model, revision), unlike the +XXX: and *XXX: notifications
+const identityPattern = /^[^+*]/;
+// 27.007 leaves the code lengths to the SIM, GSM 11.11 SIMs use 4 to 8 digit pins and 8 digit PUKs
+const pinPattern = /^\d{4,8}$/;
+const pukPattern = /^\d{8}$/;
+// the V.25ter / 27.007 dial string characters, modifiers last
+const dialStringPattern = /^\+?[0-9*#A-Dabcd,PWpw]+[IiGg]{0,2}$/;
+// an MCC (3 digits) followed by an MNC (2 or 3 digits), or the long name of the operator
+const operatorNumericPattern = /^\d{5,6}$/;
+const operatorNamePattern = /^[^"\x00-\x1f\x7f]+$/;
+// the IRA phonebook text is quoted as is, UCS2 text is hex encoded
+const phonebookTextPattern = /^[^"\x00-\x1f\x7f]*$/;
+// GSM 02.90 codes, menu answers may be text but can't close the quoted string or the command
+const ussdCodePattern = /^[0-9*#+]+$/;
+const ussdTextPattern = /^[^"\x00-\x1f\x7f]+$/;
+// a host name (RFC 1123) or an IPv4 address, the only hosts AT+CIPSTART and AT+CNTP accept
+const hostPattern =
+  /^(?=.{1,253}$)[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/;
+const socketProtocols: SocketProtocol[] = ['TCP', 'UDP'];
+// the AT+CMGS jobs time out after 20s, an Sms still being sent past this delay per part is stuck
+const spoolingPartTimeout = 25000;
+// in AUTO sleep mode, the modem is considered asleep after this idle time. Waking it up for nothing only costs 100ms
+const autoSleepDelay = 1000;
+// [cause, true if the module is powering down], WARNNING is the way SIMCom spells it
+const voltageUrcs = new Map<string, [PowerCause, boolean]>([
+  ['UNDER-VOLTAGE WARNNING', ['under-voltage', false]],
+  ['UNDER-VOLTAGE POWER DOWN', ['under-voltage', true]],
+  ['OVER-VOLTAGE WARNNING', ['over-voltage', false]],
+  ['OVER-VOLTAGE POWER DOWN', ['over-voltage', true]],
+  ['NORMAL POWER DOWN', ['normal', true]],
+]);
+const socketClosedPattern = /^\d, CLOSED$/;
+function isUrc(line: string): boolean {
+  return urcPrefixes.some((prefix) => line.startsWith(prefix)) || socketClosedPattern.test(line);
+}
+/**
+ * Parses a +CLCC line, either listed by AT+CLCC or reported on state change when AT+CLCC=1 is set
+ *
+ * @param {string} line - the +CLCC line, eg: +CLCC: 1,0,2,0,0,"+33600000000",145,""
+ * @returns {CallInfo} The call
+ */
+export function getCallInfo(line: string): CallInfo {
+  const [index, direction, state, mode, multiparty, phoneNumber, numberType] = splitFields(line.replace('+CLCC: ', ''));
+  return {
+    index: parseInt(index, 10),
+    direction: parseInt(direction, 10) as CallDirection,
+    state: parseInt(state, 10) as CallState,
+    mode: parseInt(mode, 10) as CallMode,
+    multiparty: multiparty === '1',
+    number: phoneNumber || undefined,
+    numberType: numberType ? parseInt(numberType, 10) : undefined,
+  };
+}
+/**
+ * Parses a +CLIP caller ID line
+ *
+ * @param {string} line - the +CLIP line, eg: +CLIP: "+33600000000",145,"",0,"",0
+ * @returns {IncomingCall} The caller ID
+ */
+export function getIncomingCall(line: string): IncomingCall {
+  const [phoneNumber, numberType, , , name, validity] = splitFields(line.replace('+CLIP: ', ''));
+  return {
+    number: phoneNumber || undefined,
+    numberType: numberType ? parseInt(numberType, 10) : undefined,
+    name: name || undefined,
+    validity: validity ? parseInt(validity, 10) : undefined,
+  };
+}
+// splits the comma separated fields of a response, quoted fields may contain commas
+function splitFields(value: string): string[] {
+  return (value.match(/("[^"]*"|[^,]*)(,|$)/g) || [])
+    .filter((field) => field.length)
+    .map((field) => field.replace(/,$/, '').replace(/^"|"$/g, ''));
+}
+const httpMethods = ['GET', 'POST', 'HEAD'];
+// the url and the headers are sent as quoted AT+HTTPPARA values
+const httpParameterPattern = /^[^"\x00-\x1f\x7f]*$/;
+/**
+ * Parses a +HTTPACTION URC
+ *
+ * @param {string} line - the +HTTPACTION line, eg: +HTTPACTION: 0,200,1256
+ * @returns {HttpActionResult} The method, the HTTP status (or 6xx modem error) and the length of the response body
+ */
+export function getHttpAction(line: string): HttpActionResult {
+  const [method, status, length] = line
+    .replace('+HTTPACTION: ', '')
+    .split(',')
+    .map((value) => parseInt(value, 10));
+  return { method, status, length: length || 0 };
+}
+// header names are lower cased, the way node does
+function getHttpHeaders(raw: string): { [name: string]: string } {
+  return raw.split(/\r?\n/).reduce((headers, line) => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim();
+    }
+    return headers;
+  }, {} as { [name: string]: string });
+}
+/**
+ * Parses the entries listed by AT+CPBR or AT+CPBF
+ *
+ * @param {ParsedData} lines - the parsed response, eg: +CPBR: 1,"+33612345678",145,"Alice"
+ * @param {string} prefix - +CPBR: or +CPBF:
+ * @param {PhonebookEncoding} [encoding='IRA'] - the TE character set the response has been read in, numbers and names are hex encoded in UCS2
+ * @returns {PhonebookEntry[]} The entries
+ */
+export function getPhonebookEntries(
+  lines: ParsedData,
+  prefix: string,
+  encoding: PhonebookEncoding = 'IRA',
+): PhonebookEntry[] {
+  return lines
+    .filter((line) => line.startsWith(prefix))
+    .map((line) => {
+      const [index, phoneNumber, type, name] = splitFields(line.replace(prefix, ''));
+      return {
+        index: parseInt(index, 10),
+        number: decodePhonebookText(phoneNumber, encoding),
+        type: parseInt(type, 10),
+        name: decodePhonebookText(name || '', encoding),
+      };
+    });
+}
+function encodePhonebookText(text: string, encoding: PhonebookEncoding): string {
+  return encoding === 'UCS2' ? Buffer.from(text, 'utf16le').swap16().toString('hex').toUpperCase() : text;
+}
+function decodePhonebookText(text: string, encoding: PhonebookEncoding): string {
+  return encoding === 'UCS2' && /^([0-9A-F]{4})*$/i.test(text)
+    ? Buffer.from(text, 'hex').swap16().toString('utf16le')
+    : text;
+}
+/**
+ * Parses the response of AT+CENG? in engineering mode 1 (AT+CENG=1,1)
+ *
+ * @param {ParsedData} lines - the parsed response, eg: +CENG: 0,"0017,38,00,208,01,53,a1b2,05,00,0c3d,255" for the serving cell
+ * @returns {CellInfoData} The serving cell and the neighbour cells, empty neighbour slots are left out
+ */
+export function getCellInfo(lines: ParsedData): CellInfoData {
+  const cells: CellInfoData = { neighbours: [] };
+  lines.forEach((line) => {
+    const match = line.match(/^\+CENG: (\d+),"([^"]*)"/);
+    if (!match) {
+      return;
+    }
+    const fields = match[2].split(',');
+    const cell = match[1] === '0' ? getServingCell(fields) : getNeighbourCell(fields);
+    if (!cell.mcc || isNaN(cell.cellId) || cell.cellId === 0xffff) {
+      return;
+    }
+    if (match[1] === '0') {
+      cells.serving = cell;
+    } else {
+      cells.neighbours.push(cell);
+    }
+  });
+  return cells;
+}
+// <arfcn>,<rxl>,<rxq>,<mcc>,<mnc>,<bsic>,<cellid>,<rla>,<txp>,<lac>,<TA>, cell id and lac being hexadecimal
+function getServingCell([arfcn, rxl, rxq, mcc, mnc, bsic, cellId, , , lac, timingAdvance]: string[]): CellData {
+  return {
+    ...getCell(arfcn, rxl, mcc, mnc, lac, cellId, bsic),
+    rxQuality: parseInt(rxq, 10),
+    timingAdvance: parseInt(timingAdvance, 10),
+  };
+}
+// <arfcn>,<rxl>,<bsic>,<cellid>,<mcc>,<mnc>,<lac>
+function getNeighbourCell([arfcn, rxl, bsic, cellId, mcc, mnc, lac]: string[]): CellData {
+  return getCell(arfcn, rxl, mcc, mnc, lac, cellId, bsic);
+}
+function getCell(arfcn: string, rxl: string, mcc: string, mnc: string, lac: string, cellId: string, bsic: string) {
+  const rxLevel = parseInt(rxl, 10);
+  return {
+    arfcn: parseInt(arfcn, 10),
+    rxLevel,
+    // RXLEV 0 is -110 dBm or less, 63 is -48 dBm or more
+    dbm: rxLevel - 110,
+    mcc: parseInt(mcc, 10),
+    mnc: parseInt(mnc, 10),
+    lac: parseInt(lac, 16),
+    cellId: parseInt(cellId, 16),
+    bsic: parseInt(bsic, 10),
+  };
+}
+/**
+ * Parses the response of AT+CIPGSMLOC=1,1
+ *
+ * @param {string} line - the +CIPGSMLOC line, eg: +CIPGSMLOC: 0,2.294481,48.858370,2024/05/17,10:22:31
+ * @returns {GsmLocationData | undefined} The location, or undefined if the location code is an error
+ */
+export function getGsmLocation(line: string): GsmLocationData | undefined {
+  const [code, longitude, latitude, date, time] = line.replace('+CIPGSMLOC: ', '').split(',');
+  if (code !== '0' || !date || !time) {
+    return undefined;
+  }
+  const [year, month, day] = date.split('/').map((value) => parseInt(value, 10));
+  const [hours, minutes, seconds] = time.split(':').map((value) => parseInt(value, 10));
+  return {
+    latitude: parseFloat(latitude),
+    longitude: parseFloat(longitude),
+    date: new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)),
+  };
+}
+/**
+ * Parses the response of AT+CSQ
+ *
+ * @param {string} line - the +CSQ line, eg: +CSQ: 18,0
+ * @returns {SignalQuality} The signal quality, in dBm and bars
+ */
+export function getSignalQuality(line: string): SignalQuality {
+  const [rssi, ber] = line
+    .replace('+CSQ: ', '')
+    .split(',')
+    .map((value) => parseInt(value, 10));
+  const known = rssi >= 0 && rssi <= 31;
+  return {
+    rssi,
+    // 0 is -113 dBm or less, 31 is -51 dBm or more
+    dbm: known ? -113 + rssi * 2 : undefined,
+    bars: !known || rssi < 2 ? 0 : rssi < 10 ? 1 : rssi < 15 ? 2 : rssi < 20 ? 3 : 4,
+    ber: ber >= 0 && ber <= 7 ? ber : undefined,
+  };
+}
+/**
+ * Parses the response of AT+CBC
+ *
+ * @param {string} line - the +CBC line, eg: +CBC: 0,85,4012
+ * @returns {PowerSupply | undefined} The charge state, level and voltage, undefined if the line can't be parsed
+ */
+export function getPowerSupply(line: string): PowerSupply | undefined {
+  const [chargeState, percent, millivolts] = line
+    .replace('+CBC: ', '')
+    .split(',')
+    .map((value) => parseInt(value, 10));
+  if ([chargeState, percent, millivolts].some(isNaN)) {
+    return undefined;
+  }
+  return { chargeState: chargeState as ChargeState, percent, millivolts };
+}
+/**
+ * Parses the response of AT+CCLK?, the modem keeps its local time along with the timezone in quarters of an hour
+ *
+ * @param {string} line - the +CCLK line, eg: +CCLK: "24/05/12,12:30:15+08"
+ * @returns {Date | undefined} The clock, undefined if the line can't be parsed
+ */
+export function getClock(line: string): Date | undefined {
+  const match = /(\d{2})\/(\d{2})\/(\d{2}),(\d{2}):(\d{2}):(\d{2})([+-]\d{1,2})?/.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds, quarters = 0] = match.slice(1).map((value) => parseInt(value, 10));
+  const local = Date.UTC(2000 + year, month - 1, day, hours, minutes, seconds);
+  return new Date(local - quarters * 15 * 60000);
+}
+/**
+ * Formats a date the way AT+CCLK expects it, in local time followed by the timezone in quarters of an hour
+ *
+ * @param {Date} date - the date
+ * @param {number} timezone - minutes east of UTC, rounded to the quarter hour
+ * @returns {string} The clock, eg: 24/05/12,12:30:15+08
+ */
+export function formatClock(date: Date, timezone: number): string {
+  const quarters = Math.round(timezone / 15);
+  const local = new Date(date.getTime() + quarters * 15 * 60000);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(local.getUTCFullYear() % 100)}/${pad(local.getUTCMonth() + 1)}/${pad(local.getUTCDate())},${pad(
+    local.getUTCHours(),
+  )}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}${quarters < 0 ? '-' : '+'}${pad(Math.abs(quarters))}`;
+}
+/**
+ * Parses the network time URCs sent once AT+CLTS=1 is set
+ *
+ * @param {string} line - the URC, eg: *PSUTTZ: 2024,5,12,10,30,15,"+8",1 (UTC time), +CTZV: +8,1 or DST: 1
+ * @returns {TimeUpdate} The fields carried by the URC
+ */
+export function getTimeUpdate(line: string): TimeUpdate {
+  const fields = splitFields(line.substring(line.indexOf(':') + 1).trim()).map((value) => parseInt(value, 10));
+  if (line.startsWith('DST: ')) {
+    return { dst: fields[0] };
+  }
+  if (line.startsWith('+CTZV: ')) {
+    return { timezone: fields[0] * 15, dst: fields[1] };
+  }
+  const [year, month, day, hours, minutes, seconds, quarters, dst] = fields;
+  return {
+    date: new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day, hours, minutes, seconds)),
+    timezone: quarters * 15,
+    dst,
+  };
+}
+/**
+ * Parses the response of AT+COPS?
+ *
+ * @param {string} line - the +COPS line, eg: +COPS: 0,2,"20801" or +COPS: 0,0,"Orange F",0
+ * @returns {OperatorInfo} The selection mode and the operator, its name or its numeric id depending on the format it was queried with
+ */
+export function getOperatorInfo(line: string): OperatorInfo {
+  const [mode, format, id, accessTechnology] = splitFields(line.replace('+COPS: ', ''));
+  const operator: OperatorInfo = { mode: parseInt(mode, 10) };
+  if (id !== undefined && format === '2') {
+    operator.numeric = id;
+    operator.mcc = parseInt(id.substring(0, 3), 10);
+    operator.mnc = parseInt(id.substring(3), 10);
+  } else if (id !== undefined) {
+    operator.name = id;
+  }
+  if (accessTechnology !== undefined && accessTechnology.length) {
+    operator.accessTechnology = parseInt(accessTechnology, 10) as AccessTechnology;
+  }
+  return operator;
+}
+/**
+ * Parses the response of AT+COPS=?
+ *
+ * @param {string} line - the +COPS line, eg: +COPS: (2,"Orange F","Orange","20801"),(3,"F SFR","SFR","20810"),,(0-4),(0-2)
+ * @returns {NetworkOperator[]} The operators found
+ */
+export function getNetworkOperators(line: string): NetworkOperator[] {
+  const operators: NetworkOperator[] = [];
+  const pattern = /\((\d),"([^"]*)","([^"]*)","(\d+)"(?:,(\d))?\)/g;
+  let match = pattern.exec(line);
+  while (match) {
+    const [, status, longName, shortName, numeric, accessTechnology] = match;
+    operators.push({
+      status: parseInt(status, 10) as OperatorStatus,
+      longName,
+      shortName,
+      numeric,
+      mcc: parseInt(numeric.substring(0, 3), 10),
+      mnc: parseInt(numeric.substring(3), 10),
+      ...(accessTechnology !== undefined ? { accessTechnology: parseInt(accessTechnology, 10) } : {}),
+    });
+    match = pattern.exec(line);
+  }
+  return operators;
+}
+const ussdPattern = /\+CUSD: (\d)(?:,"([^"]*)"(?:,(\d+))?)?\r\n/g;
+/**
+ * Extracts and decodes the +CUSD responses found in the buffer
+ *
+ * @param {string} buffer - the raw buffer input
+ * @returns {UssdResponse[]} The USSD responses, in order of arrival
+ */
+export function getUssdResponses(buffer: string): UssdResponse[] {
+  const responses: UssdResponse[] = [];
+  const ussd = new RegExp(ussdPattern);
+  let match = ussd.exec(buffer);
+  while (match) {
+    const dcs = match[3] !== undefined ? parseInt(match[3], 10) : undefined;
+    responses.push({
+      status: parseInt(match[1], 10) as UssdStatus,
+      text: match[2] !== undefined ? decodeUssd(match[2], dcs) : undefined,
+      dcs,
+    });
+    match = ussd.exec(buffer);
+  }
+  return responses;
+}
+/**
+ * Decodes an USSD text according to its data coding scheme (3GPP TS 23.038). GSM 7-bit texts are already converted by the modem to its character set,
+ * UCS2 and 8-bit texts are hex encoded
+ *
+ * @param {string} text - the text of the +CUSD response
+ * @param {number} [dcs] - the data coding scheme of the response
+ * @returns {string} The decoded text
+ */
+export function decodeUssd(text: string, dcs?: number): string {
+  if (dcs === undefined || !/^([0-9A-F]{2})+$/i.test(text)) {
+    return text;
+  }
+  // the coding group is the high nibble, the alphabet is then given by bits 3-2 (general coding) or bit 2 (data coding)
+  const group = Math.floor(dcs / 16);
+  const alphabet =
+    dcs === 0x11
+      ? 'ucs2'
+      : group >= 4 && group <= 7
+      ? ['gsm', '8bit', 'ucs2', 'gsm'][Math.floor(dcs / 4) % 4]
+      : group === 15 && Math.floor(dcs / 4) % 2
+      ? '8bit'
+      : 'gsm';
+  if (alphabet === 'ucs2') {
+    // 0x11 : the message is preceded by a 2 characters language indication
+    const data = Buffer.from(dcs === 0x11 ? text.substring(4) : text, 'hex');
+    return data.length % 2 ? text : data.swap16().toString('utf16le');
+  }
+  return alphabet === '8bit' ? Buffer.from(text, 'hex').toString('latin1') : text;
+}
 function spliceFromSpooler(id: string, spooler: Sms[]) {
   const index = spooler.findIndex((sms) => {
     return sms.id === id;
@@ -1180,6 +4617,7 @@ const defaultHandler: JobHandler = (buffer, job, emitter, logger?): void => {
               status: QueryStatus.ERROR,
               message: getError(buffer).message,
             },
+            modemError: getError(buffer).modemError,
           },
         });
       }
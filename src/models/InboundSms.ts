@@ -1,3 +1,266 @@
+import { PDUParser } from 'pdu.ts';
+import { v4 } from 'uuid';
+import { InboundSmsLocation, InboundSmsStatus } from './types/InboundSms';
+import { SmsEncoding } from './types/Sms';
+
 export default class InboundSms {
-  // DELIVERY REPORT OR SMS
+  private _id = v4();
+  private _pdu: string;
+  private _sender: string;
+  private _senderType: string;
+  private _smsc: string;
+  private _timestamp: Date;
+  private _encoding: SmsEncoding;
+  private _text: string;
+  private _storage?: string;
+  private _index?: number;
+  private _status?: InboundSmsStatus;
+  private _reference?: string;
+  private _parts = 1;
+  private _part = 1;
+  private _segments: InboundSms[] = [];
+  private _incomplete = false;
+
+  /**
+   * the UUID of the InboundSms
+   *
+   * @readonly
+   * @type {string}
+   */
+  get id(): string {
+    return this._id;
+  }
+  /**
+   * the raw PDU the message has been decoded from
+   *
+   * @readonly
+   * @type {string}
+   */
+  get pdu(): string {
+    return this._pdu;
+  }
+  /**
+   * the phone number (or alphanumeric name) of the sender
+   *
+   * @readonly
+   * @type {string}
+   */
+  get sender(): string {
+    return this._sender;
+  }
+  /**
+   * the type of address of the sender, as an hex string (eg: 91 for international, d0 for alphanumeric)
+   *
+   * @readonly
+   * @type {string}
+   */
+  get senderType(): string {
+    return this._senderType;
+  }
+  /**
+   * the number of the SMS center that delivered the message
+   *
+   * @readonly
+   * @type {string}
+   */
+  get smsc(): string {
+    return this._smsc;
+  }
+  /**
+   * the SMSC timestamp of the message
+   *
+   * @readonly
+   * @type {Date}
+   */
+  get timestamp(): Date {
+    return this._timestamp;
+  }
+  /**
+   * the encoding of the message
+   *
+   * @readonly
+   * @type {SmsEncoding}
+   */
+  get encoding(): SmsEncoding {
+    return this._encoding;
+  }
+  /**
+   * the decoded text of the message
+   *
+   * @readonly
+   * @type {string}
+   */
+  get text(): string {
+    return this._text;
+  }
+  /**
+   * the storage the message was read from (eg: SM, ME), if any
+   *
+   * @readonly
+   * @type {string | undefined}
+   */
+  get storage(): string | undefined {
+    return this._storage;
+  }
+  /**
+   * the index of the message inside its storage, if any
+   *
+   * @readonly
+   * @type {number | undefined}
+   */
+  get index(): number | undefined {
+    return this._index;
+  }
+  /**
+   * the storage status of the message (unread, read...), if any
+   *
+   * @readonly
+   * @type {InboundSmsStatus | undefined}
+   */
+  get status(): InboundSmsStatus | undefined {
+    return this._status;
+  }
+
+  /**
+   * the concatenation reference shared by every part of a multipart message, undefined for single part messages
+   *
+   * @readonly
+   * @type {string | undefined}
+   */
+  get reference(): string | undefined {
+    return this._reference;
+  }
+  /**
+   * the total number of parts of the message
+   *
+   * @readonly
+   * @type {number}
+   */
+  get parts(): number {
+    return this._parts;
+  }
+  /**
+   * the sequence number of this part (starting at 1)
+   *
+   * @readonly
+   * @type {number}
+   */
+  get part(): number {
+    return this._part;
+  }
+  /**
+   * the individual parts a reassembled multipart message has been built from, ordered by sequence number
+   *
+   * @readonly
+   * @type {InboundSms[]}
+   */
+  get segments(): InboundSms[] {
+    return this._segments;
+  }
+  /**
+   * true if the message has been emitted before all of its parts were received
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get incomplete(): boolean {
+    return this._incomplete;
+  }
+  /**
+   * true if the message is a single part of a multipart message that still needs to be reassembled
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get isPartial(): boolean {
+    return this._parts > 1 && !this._segments.length;
+  }
+
+  /**
+   * Reassembles the parts of a concatenated message into a single InboundSms, ordering them by sequence number
+   *
+   * @param {InboundSms[]} parts - the received parts, sharing the same sender and reference
+   * @returns {InboundSms} An InboundSms containing the full text, flagged as incomplete if some parts are missing
+   */
+  static fromParts(parts: InboundSms[]): InboundSms {
+    if (!parts.length) {
+      throw new Error('unable to reassemble inbound sms, no part provided');
+    }
+    const segments = [...parts].sort((a, b) => a.part - b.part);
+    const sms = new InboundSms(segments[0].pdu, {
+      storage: segments[0].storage,
+      index: segments[0].index,
+      status: segments[0].status,
+    });
+    sms._text = segments.map((segment) => segment.text).join('');
+    sms._segments = segments;
+    sms._incomplete = segments.length < sms._parts;
+    return sms;
+  }
+
+  /**
+   * Creates an instance of the InboundSms class, decoding an SMS-DELIVER PDU as returned by the modem in PDU mode
+   *
+   * @param {string} pdu - The raw PDU (hex string, SMSC part included)
+   * @param {InboundSmsLocation} [location={}] - where the message is stored on the modem, if it is
+   */
+  constructor(pdu: string, location: InboundSmsLocation = {}) {
+    const parsed = PDUParser.Parse(pdu);
+    if (!parsed || parsed.tpdu_type !== 'SMS-DELIVER') {
+      throw new Error(`unable to decode inbound sms, unexpected pdu type ${parsed?.tpdu_type}`);
+    }
+    this._pdu = pdu;
+    this._sender = parsed.sender;
+    this._senderType = parsed.sender_type;
+    this._smsc = parsed.smsc;
+    this._timestamp = parsed.time;
+    this._encoding = parsed.encoding;
+    this._text = parsed.text || '';
+    this._storage = location.storage;
+    this._index = location.index;
+    this._status = location.status;
+    const concatenation = getConcatenation(pdu);
+    if (concatenation && concatenation.parts > 1) {
+      this._reference = concatenation.reference;
+      this._parts = concatenation.parts;
+      this._part = concatenation.part;
+    }
+  }
+}
+
+/**
+ * Reads the concatenation element (IEI 00 or 08) of the user data header. pdu.ts reads its hex counters as decimal numbers, 10 parts and more were wrong
+ *
+ * @param {string} pdu - The raw SMS-DELIVER PDU (hex string, SMSC part included)
+ * @returns {{reference: string, parts: number, part: number} | undefined} the reference (hex, as pdu.ts returns it), the number of parts and the sequence number, undefined if the message is not concatenated
+ */
+function getConcatenation(pdu: string): { reference: string; parts: number; part: number } | undefined {
+  const octet = (position: number) => parseInt(pdu.slice(position, position + 2), 16);
+  let cursor = (octet(0) + 1) * 2;
+  // TP-UDHI, bit 6 of the first octet
+  if (Math.floor(octet(cursor) / 0x40) % 2 === 0) {
+    return undefined;
+  }
+  // first octet, then the sender address : its length in semi-octets, its type and its padded digits
+  const senderLength = octet(cursor + 2);
+  cursor += 6 + senderLength + (senderLength % 2);
+  // TP-PID, TP-DCS, TP-SCTS and TP-UDL
+  cursor += 4 + 14 + 2;
+  const headerEnd = cursor + 2 + octet(cursor) * 2;
+  cursor += 2;
+  while (cursor < headerEnd) {
+    const iei = octet(cursor);
+    const length = octet(cursor + 2);
+    const data = cursor + 4;
+    if (iei === 0x00 || iei === 0x08) {
+      const referenceLength = iei === 0x00 ? 2 : 4;
+      return {
+        reference: pdu.slice(data, data + referenceLength),
+        parts: octet(data + referenceLength),
+        part: octet(data + referenceLength + 2),
+      };
+    }
+    cursor = data + length * 2;
+  }
+  return undefined;
 }
@@ -0,0 +1,96 @@
+// the data received on a connection is prefixed with +RECEIVE,<link>,<length>: (AT+CIPMUX=1) or +IPD,<length>: (AT+CIPMUX=0)
+const markers = ['+RECEIVE,', '+IPD,'];
+const headerPattern = /^(?:\+RECEIVE,(\d+),(\d+)[^\r\n]*:\r\n|\+IPD,(\d+):)/;
+// a header is never that long, whatever starts like one and goes past this length is regular data
+const maxHeaderLength = 64;
+
+/**
+ * Extracts the data received on IP connections out of the serial stream. Payloads are raw bytes of a known length, they can hold anything
+ * (line breaks, OK, ERROR...) and must never reach the AT command handlers
+ */
+export default class IpDataDemultiplexer {
+  private pending = Buffer.alloc(0);
+  private payload?: { link: number; remaining: number };
+  private onData: (link: number, data: Buffer) => void;
+
+  /**
+   * Creates a demultiplexer calling onData with every piece of payload received, the serial data is then passed through push()
+   *
+   * @param {(link: number, data: Buffer) => void} onData - called with the connection number and the payload bytes
+   */
+  constructor(onData: (link: number, data: Buffer) => void) {
+    this.onData = onData;
+  }
+
+  /**
+   * Removes the IP data from a chunk of serial data. An incomplete header is held back until the next chunk
+   *
+   * @param {Buffer} chunk - the data received from the transport
+   * @returns {Buffer} The serial data left for the AT command handlers
+   */
+  public push(chunk: Buffer): Buffer {
+    let input = Buffer.concat([this.pending, chunk]);
+    this.pending = Buffer.alloc(0);
+    const output: Buffer[] = [];
+    while (input.length) {
+      if (this.payload) {
+        const size = Math.min(this.payload.remaining, input.length);
+        this.onData(this.payload.link, input.subarray(0, size));
+        this.payload.remaining -= size;
+        if (!this.payload.remaining) {
+          this.payload = undefined;
+        }
+        input = input.subarray(size);
+        continue;
+      }
+      const start = findHeader(input);
+      if (start < 0) {
+        output.push(input);
+        break;
+      }
+      output.push(input.subarray(0, start));
+      input = input.subarray(start);
+      // latin1 keeps one character per byte
+      const text = input.subarray(0, maxHeaderLength).toString('latin1');
+      const header = text.match(headerPattern);
+      if (header) {
+        const length = parseInt(header[2] || header[3], 10);
+        if (length) {
+          this.payload = { link: header[1] ? parseInt(header[1], 10) : 0, remaining: length };
+        }
+        input = input.subarray(header[0].length);
+      } else if (!text.includes('\n') && input.length < maxHeaderLength) {
+        this.pending = input;
+        break;
+      } else {
+        output.push(input.subarray(0, 1));
+        input = input.subarray(1);
+      }
+    }
+    return Buffer.concat(output);
+  }
+
+  /**
+   * Forgets any incomplete header or payload, eg: when the modem resets
+   */
+  public reset() {
+    this.pending = Buffer.alloc(0);
+    this.payload = undefined;
+  }
+}
+
+// the position of the first header, or of the beginning of a header cut at the end of the chunk
+function findHeader(input: Buffer): number {
+  const positions = markers.map((marker) => input.indexOf(marker)).filter((position) => position >= 0);
+  if (positions.length) {
+    return Math.min(...positions);
+  }
+  const tail = input.lastIndexOf('+');
+  if (tail >= 0) {
+    const rest = input.subarray(tail).toString('latin1');
+    if (markers.some((marker) => marker.startsWith(rest))) {
+      return tail;
+    }
+  }
+  return -1;
+}
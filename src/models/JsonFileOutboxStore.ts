@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import { OutboxStore } from './types/OutboxStore';
+import { SerializedSms } from './types/Sms';
+
+export default class JsonFileOutboxStore implements OutboxStore {
+  private _path: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * the path of the JSON file holding the outbox
+   *
+   * @readonly
+   * @type {string}
+   */
+  get path(): string {
+    return this._path;
+  }
+
+  /**
+   * Creates an OutboxStore persisting the serialized Smses into a single JSON file. Writes are serialized and atomic (temporary file + rename)
+   *
+   * @param {string} path - the path of the JSON file, created on the first write
+   */
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  public load = async (): Promise<SerializedSms[]> => {
+    await this.pending;
+    return Object.values(await this.read());
+  };
+
+  public save = (sms: SerializedSms): Promise<void> => {
+    return this.update((records) => {
+      records[sms.id] = sms;
+    });
+  };
+
+  public remove = (id: string): Promise<void> => {
+    return this.update((records) => {
+      delete records[id];
+    });
+  };
+
+  private update(mutate: (records: Record<string, SerializedSms>) => void): Promise<void> {
+    const update = this.pending.then(async () => {
+      const records = await this.read();
+      mutate(records);
+      const temporaryPath = `${this._path}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(records, null, 2), 'utf8');
+      await fs.rename(temporaryPath, this._path);
+    });
+    // a failed write must not block the following ones
+    this.pending = update.catch(() => undefined);
+    return update;
+  }
+
+  private async read(): Promise<Record<string, SerializedSms>> {
+    try {
+      return JSON.parse(await fs.readFile(this._path, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
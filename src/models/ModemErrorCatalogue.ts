@@ -0,0 +1,203 @@
+import { ModemError, ModemErrorCategory } from './types/ModemResponse';
+
+type ModemErrorDefinition = {
+  description: string;
+  category: ModemErrorCategory;
+  temporary: boolean;
+};
+
+const { PHONE, SIM, NETWORK, STORAGE, PDU, UNKNOWN } = ModemErrorCategory;
+
+function catalogue(entries: [number, string, ModemErrorCategory, boolean?][]): Map<number, ModemErrorDefinition> {
+  return new Map(
+    entries.map(([code, description, category, temporary = false]) => [code, { description, category, temporary }]),
+  );
+}
+
+/**
+ * +CME ERROR result codes, from 3GPP TS 27.007 §9.2 and the SIMCom extensions
+ */
+export const cmeErrors = catalogue([
+  [0, 'phone failure', PHONE],
+  [1, 'no connection to phone', PHONE],
+  [2, 'phone-adaptor link reserved', PHONE],
+  [3, 'operation not allowed', PHONE],
+  [4, 'operation not supported', PHONE],
+  [5, 'PH-SIM PIN required', SIM],
+  [6, 'PH-FSIM PIN required', SIM],
+  [7, 'PH-FSIM PUK required', SIM],
+  [10, 'SIM not inserted', SIM],
+  [11, 'SIM PIN required', SIM],
+  [12, 'SIM PUK required', SIM],
+  [13, 'SIM failure', SIM],
+  [14, 'SIM busy', SIM, true],
+  [15, 'SIM wrong', SIM],
+  [16, 'incorrect password', SIM],
+  [17, 'SIM PIN2 required', SIM],
+  [18, 'SIM PUK2 required', SIM],
+  [20, 'memory full', STORAGE],
+  [21, 'invalid index', STORAGE],
+  [22, 'not found', STORAGE],
+  [23, 'memory failure', STORAGE],
+  [24, 'text string too long', PHONE],
+  [25, 'invalid characters in text string', PHONE],
+  [26, 'dial string too long', PHONE],
+  [27, 'invalid characters in dial string', PHONE],
+  [30, 'no network service', NETWORK, true],
+  [31, 'network timeout', NETWORK, true],
+  [32, 'network not allowed - emergency calls only', NETWORK],
+  [40, 'network personalization PIN required', SIM],
+  [41, 'network personalization PUK required', SIM],
+  [42, 'network subset personalization PIN required', SIM],
+  [43, 'network subset personalization PUK required', SIM],
+  [44, 'service provider personalization PIN required', SIM],
+  [45, 'service provider personalization PUK required', SIM],
+  [46, 'corporate personalization PIN required', SIM],
+  [47, 'corporate personalization PUK required', SIM],
+  [100, 'unknown', UNKNOWN, true],
+  [103, 'illegal MS', NETWORK],
+  [106, 'illegal ME', NETWORK],
+  [107, 'GPRS services not allowed', NETWORK],
+  [111, 'PLMN not allowed', NETWORK],
+  [112, 'location area not allowed', NETWORK],
+  [113, 'roaming not allowed in this location area', NETWORK],
+  [132, 'service option not supported', NETWORK],
+  [133, 'requested service option not subscribed', NETWORK],
+  [134, 'service option temporarily out of order', NETWORK, true],
+  [148, 'unspecified GPRS error', NETWORK, true],
+  [149, 'PDP authentication failure', NETWORK],
+  [150, 'invalid mobile class', NETWORK],
+  [256, 'operation temporarily not allowed', PHONE, true],
+  [257, 'call barred', NETWORK],
+  [258, 'phone is busy', PHONE, true],
+  [259, 'user abort', PHONE],
+  [260, 'invalid dial string', PHONE],
+  [261, 'SS not executed', NETWORK],
+  [262, 'SIM blocked', SIM],
+  [263, 'invalid block', PHONE],
+]);
+
+/**
+ * +CMS ERROR result codes, from 3GPP TS 27.005 §3.2.5 (0-255 being the TS 24.011 / 23.040 network causes)
+ */
+export const cmsErrors = catalogue([
+  [1, 'unassigned (unallocated) number', NETWORK],
+  [8, 'operator determined barring', NETWORK],
+  [10, 'call barred', NETWORK],
+  [21, 'short message transfer rejected', NETWORK],
+  [27, 'destination out of service', NETWORK, true],
+  [28, 'unidentified subscriber', NETWORK],
+  [29, 'facility rejected', NETWORK],
+  [30, 'unknown subscriber', NETWORK],
+  [38, 'network out of order', NETWORK, true],
+  [41, 'temporary failure', NETWORK, true],
+  [42, 'congestion', NETWORK, true],
+  [47, 'resources unavailable, unspecified', NETWORK, true],
+  [50, 'requested facility not subscribed', NETWORK],
+  [69, 'requested facility not implemented', NETWORK],
+  [81, 'invalid short message transfer reference value', PDU],
+  [95, 'invalid message, unspecified', PDU],
+  [96, 'invalid mandatory information', PDU],
+  [97, 'message type non-existent or not implemented', PDU],
+  [98, 'message not compatible with short message protocol state', PDU],
+  [99, 'information element non-existent or not implemented', PDU],
+  [111, 'protocol error, unspecified', PDU],
+  [127, 'interworking, unspecified', NETWORK],
+  [128, 'telematic interworking not supported', PDU],
+  [129, 'short message type 0 not supported', PDU],
+  [130, 'cannot replace short message', PDU],
+  [143, 'unspecified TP-PID error', PDU],
+  [144, 'data coding scheme (alphabet) not supported', PDU],
+  [145, 'message class not supported', PDU],
+  [159, 'unspecified TP-DCS error', PDU],
+  [160, 'command cannot be actioned', PDU],
+  [161, 'command unsupported', PDU],
+  [175, 'unspecified TP-Command error', PDU],
+  [176, 'TPDU not supported', PDU],
+  [192, 'SC busy', NETWORK, true],
+  [193, 'no SC subscription', NETWORK],
+  [194, 'SC system failure', NETWORK, true],
+  [195, 'invalid SME address', PDU],
+  [196, 'destination SME barred', NETWORK],
+  [197, 'SM rejected-duplicate SM', NETWORK],
+  [198, 'TP-VPF not supported', PDU],
+  [199, 'TP-VP not supported', PDU],
+  [208, '(U)SIM SMS storage full', STORAGE],
+  [209, 'no SMS storage capability in (U)SIM', STORAGE],
+  [210, 'error in MS', PHONE],
+  [211, 'memory capacity exceeded', STORAGE],
+  [212, '(U)SIM application toolkit busy', SIM, true],
+  [213, '(U)SIM data download error', SIM],
+  [255, 'unspecified error cause', UNKNOWN],
+  [300, 'ME failure', PHONE],
+  [301, 'SMS service of ME reserved', PHONE],
+  [302, 'operation not allowed', PHONE],
+  [303, 'operation not supported', PHONE],
+  [304, 'invalid PDU mode parameter', PDU],
+  [305, 'invalid text mode parameter', PDU],
+  [310, '(U)SIM not inserted', SIM],
+  [311, '(U)SIM PIN required', SIM],
+  [312, 'PH-(U)SIM PIN required', SIM],
+  [313, '(U)SIM failure', SIM],
+  [314, '(U)SIM busy', SIM, true],
+  [315, '(U)SIM wrong', SIM],
+  [316, '(U)SIM PUK required', SIM],
+  [317, '(U)SIM PIN2 required', SIM],
+  [318, '(U)SIM PUK2 required', SIM],
+  [320, 'memory failure', STORAGE],
+  [321, 'invalid memory index', STORAGE],
+  [322, 'memory full', STORAGE],
+  [330, 'SMSC address unknown', NETWORK],
+  [331, 'no network service', NETWORK, true],
+  [332, 'network timeout', NETWORK, true],
+  [340, 'no +CNMA acknowledgement expected', PHONE],
+  [500, 'unknown error', UNKNOWN, true],
+]);
+
+// verbose messages differ slightly between firmwares (case, "(U)SIM" or "SIM"), they are compared once normalized
+function normalize(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\(u\)/g, '')
+    .replace(/[^a-z0-9+]/g, '');
+}
+function reverse(errors: Map<number, ModemErrorDefinition>): Map<string, number> {
+  const descriptions = new Map<string, number>();
+  errors.forEach((definition, code) => {
+    // the first code wins when a description is shared (eg: memory full)
+    if (!descriptions.has(normalize(definition.description))) {
+      descriptions.set(normalize(definition.description), code);
+    }
+  });
+  return descriptions;
+}
+const cmeDescriptions = reverse(cmeErrors);
+const cmsDescriptions = reverse(cmsErrors);
+
+/**
+ * Parses a +CME ERROR or +CMS ERROR line, in its numeric (AT+CMEE=1) or verbose (AT+CMEE=2) form
+ *
+ * @param {string} line - the error line, eg: "+CMS ERROR: 500" or "+CME ERROR: SIM PIN required"
+ * @returns {ModemError | undefined} The catalogued error, or undefined if the line isn't a +CME / +CMS error
+ */
+export function parseModemError(line: string): ModemError | undefined {
+  const match = line.trim().match(/^\+(CME|CMS) ERROR: ?(.*)$/);
+  if (!match) {
+    return undefined;
+  }
+  const type = match[1] as 'CME' | 'CMS';
+  const value = match[2].trim();
+  const errors = type === 'CME' ? cmeErrors : cmsErrors;
+  const code = /^\d+$/.test(value)
+    ? parseInt(value, 10)
+    : (type === 'CME' ? cmeDescriptions : cmsDescriptions).get(normalize(value));
+  const definition = code !== undefined ? errors.get(code) : undefined;
+  return {
+    type,
+    code,
+    category: definition ? definition.category : UNKNOWN,
+    temporary: definition ? definition.temporary : false,
+    description: definition ? definition.description : /^\d+$/.test(value) ? `unknown ${type} error` : value,
+    raw: line.trim(),
+  };
+}
@@ -0,0 +1,183 @@
+import { Duplex } from 'stream';
+import Sim800L, { getError, isWaitingForInput, parseBuffer, sneakyDelivery } from '..';
+import { JobHandler } from './types/JobHandler';
+import Logger from './types/Logger';
+import ModemResponse from './types/ModemResponse';
+import { SocketOptions, SocketProtocol } from './types/Socket';
+
+// the largest payload AT+CIPSEND accepts at once
+const maxSendLength = 1460;
+
+export class ModemSocket extends Duplex {
+  private _link: number;
+  private _host: string;
+  private _port: number;
+  private _protocol: SocketProtocol;
+  private _connected = true;
+  private _modem: Sim800L;
+  private logger: Logger;
+
+  /**
+   * the connection number (0 to 5) used by the modem
+   *
+   * @readonly
+   * @type {number}
+   */
+  get link(): number {
+    return this._link;
+  }
+  get host(): string {
+    return this._host;
+  }
+  get port(): number {
+    return this._port;
+  }
+  get protocol(): SocketProtocol {
+    return this._protocol;
+  }
+  /**
+   * false once the connection has been closed, by either side
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get connected(): boolean {
+    return this._connected;
+  }
+
+  /**
+   * Creates a Duplex stream on top of an open connection of the modem. Use the openSocket() method of the Sim800L instance instead, it opens the connection first
+   *
+   * @param {number} link - the connection number
+   * @param {SocketOptions} options - the remote host, port and protocol of the connection
+   * @param {Sim800L} modem - the instance of Sim800L the connection has been opened on
+   */
+  constructor(link: number, { host, port, protocol = 'TCP' }: SocketOptions, modem: Sim800L) {
+    super({ allowHalfOpen: false });
+    this._link = link;
+    this._host = host;
+    this._port = port;
+    this._protocol = protocol;
+    this._modem = modem;
+    this.logger = this._modem.logger;
+  }
+
+  /**
+   * Called by Sim800L when the connection has been closed by the remote host or the network, ends the readable side of the stream
+   */
+  public remoteClosed() {
+    if (!this._connected) {
+      return;
+    }
+    this.logger.verbose(`socket ${this._link} - closed by the remote host`);
+    this._connected = false;
+    this.push(null);
+  }
+
+  public _read() {
+    // the modem pushes the data as soon as it is received, there is no way to pause it
+  }
+
+  public _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+    this.send(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding))
+      .then(() => callback())
+      .catch(callback);
+  }
+
+  public _final(callback: (error?: Error | null) => void) {
+    this.close()
+      .then(() => callback())
+      .catch(callback);
+  }
+
+  public _destroy(error: Error | null, callback: (error: Error | null) => void) {
+    this.close()
+      .catch((closeError) => this.logger.warn(`socket ${this._link} - unable to close the connection: ${closeError}`))
+      .then(() => callback(error));
+  }
+
+  private async send(data: Buffer) {
+    for (let offset = 0; offset < data.length; offset += maxSendLength) {
+      if (!this._connected) {
+        throw new Error(`socket ${this._link} is closed`);
+      }
+      const part = data.subarray(offset, offset + maxSendLength);
+      const response = await this._modem.execCommand(null, {
+        command: `AT+CIPSEND=${this._link},${part.length}`,
+        type: 'socket-send',
+        handler: this.sendHandler(part),
+        timeout: 30000,
+      });
+      if (response.result !== 'success') {
+        throw new Error(`socket ${this._link} - unable to send data: ${JSON.stringify(response.error)}`);
+      }
+    }
+  }
+
+  private async close() {
+    if (!this._connected) {
+      return;
+    }
+    this._connected = false;
+    const response: ModemResponse = await this._modem.execCommand(null, {
+      command: `AT+CIPCLOSE=${this._link}`,
+      type: 'socket-close',
+      handler: this.closeHandler,
+    });
+    // closing a connection the remote host has just closed fails, the connection is closed anyway
+    if (response.result !== 'success') {
+      this.logger.warn(`socket ${this._link} - close failed: ${JSON.stringify(response.error)}`);
+    }
+  }
+
+  private sendHandler(data: Buffer): JobHandler {
+    return (buffer, job, emitter) => {
+      sneakyDelivery(buffer, emitter);
+      const parsed = parseBuffer(buffer);
+      if (!job.subcommandIndex && isWaitingForInput(parsed)) {
+        // the modem reads exactly the announced number of bytes, no Ctrl-Z needed
+        job.subcommandIndex = 1;
+        this._modem.port.write(data);
+      }
+      if (parsed.includes(`${this._link}, SEND OK`)) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'success',
+          data: { raw: parsed, processed: data.length },
+        });
+        job.ended = true;
+      } else if (parsed.includes(`${this._link}, SEND FAIL`) || getError(buffer).isError) {
+        job.callback!({
+          uuid: job.uuid,
+          type: job.type,
+          result: 'failure',
+          error: {
+            type: 'command',
+            content: getError(buffer).message || parsed,
+            modemError: getError(buffer).modemError,
+          },
+        });
+        job.ended = true;
+      }
+    };
+  }
+
+  private closeHandler: JobHandler = (buffer, job, emitter) => {
+    sneakyDelivery(buffer, emitter);
+    const parsed = parseBuffer(buffer);
+    if (parsed.includes(`${this._link}, CLOSE OK`)) {
+      job.callback!({ uuid: job.uuid, type: job.type, result: 'success', data: { raw: parsed, processed: parsed } });
+      job.ended = true;
+    } else if (getError(buffer).isError) {
+      job.callback!({
+        uuid: job.uuid,
+        type: job.type,
+        result: 'failure',
+        error: { type: 'command', content: getError(buffer).message, modemError: getError(buffer).modemError },
+      });
+      job.ended = true;
+    }
+  };
+}
+export default ModemSocket;
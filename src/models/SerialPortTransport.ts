@@ -0,0 +1,51 @@
+import { SerialPort, SerialPortOpenOptions } from 'serialport';
+import { EventEmitter } from 'stream';
+import { ControlLines, Transport, TransportCallback } from './types/Transport';
+
+export default class SerialPortTransport extends EventEmitter implements Transport {
+  private _port: SerialPort;
+
+  /**
+   * the underlying serialport instance
+   *
+   * @readonly
+   * @type {SerialPort}
+   */
+  get port(): SerialPort {
+    return this._port;
+  }
+
+  /**
+   * Creates the default transport, a thin wrapper around a "serialport" SerialPort. The port is not opened until open() is called
+   *
+   * @param {SerialPortOpenOptions} options - The options you provide to the "serialport" dependency
+   */
+  constructor(options: SerialPortOpenOptions<any>) {
+    super();
+    this._port = new SerialPort({ ...options, autoOpen: false } as SerialPortOpenOptions<any>);
+    this._port.on('open', () => this.emit('open'));
+    this._port.on('close', () => this.emit('close'));
+    this._port.on('data', (data: Buffer) => this.emit('data', data));
+    this._port.on('error', (err: Error) => this.emit('error', err));
+  }
+
+  public open = (callback?: TransportCallback) => {
+    if (this._port.isOpen) {
+      if (callback) callback(null);
+      return;
+    }
+    this._port.open(callback);
+  };
+
+  public close = (callback?: TransportCallback) => {
+    this._port.close(callback);
+  };
+
+  public write = (data: string | Buffer, callback?: TransportCallback) => {
+    this._port.write(data, callback);
+  };
+
+  public set = (lines: ControlLines, callback?: TransportCallback) => {
+    this._port.set(lines, callback);
+  };
+}
@@ -0,0 +1,1506 @@
+import { EventEmitter } from 'stream';
+import { ConnectionStatus } from './types/ModemResponse';
+import {
+  SimulatorCall,
+  SimulatorError,
+  SimulatorHttpRequest,
+  SimulatorHttpResponse,
+  SimulatorOperator,
+  SimulatorOptions,
+  SimulatorPhonebookEntry,
+  SimulatorResponse,
+  SimulatorRule,
+  SimulatorStoredMessage,
+} from './types/Simulator';
+import { ControlLines, Transport, TransportCallback } from './types/Transport';
+
+const ESC = String.fromCharCode(27);
+
+export default class Sim800LSimulator extends EventEmitter implements Transport {
+  public options: Required<Omit<SimulatorOptions, 'pin' | 'puk' | 'ownNumber'>> & {
+    pin?: string;
+    puk?: string;
+    ownNumber?: string;
+  } = {
+    echo: true,
+    responseDelay: 10,
+    chunkSize: 0,
+    chunkDelay: 1,
+    networkStatus: ConnectionStatus.REGISTERED,
+    deliveryReportDelay: 100,
+    rebootDelay: 500,
+    storageSize: 30,
+    phonebookSize: 250,
+    imei: '864000000000001',
+    imsi: '208010000000001',
+    iccid: '8933010000000000001',
+    callSetupDelay: 200,
+    rssi: 20,
+    ber: 0,
+    millivolts: 4012,
+    batteryPercent: 85,
+    sleepDelay: 5000,
+    operators: [
+      { longName: 'Orange F', shortName: 'Orange', numeric: '20801' },
+      { longName: 'F SFR', shortName: 'SFR', numeric: '20810' },
+      { longName: 'F-Bouygues Telecom', shortName: 'BYTEL', numeric: '20820', forbidden: true },
+    ],
+  };
+  public commands: string[] = [];
+  public httpRequests: SimulatorHttpRequest[] = [];
+  public responsive = true;
+  private _isOpen = false;
+  private opening = false;
+  private simLocked: boolean;
+  private pukLocked = false;
+  private pinAttempts = 3;
+  private pukAttempts = 10;
+  // a SIM always has a PIN, the lock is what the pin option enables
+  private pin: string;
+  private pinLock: boolean;
+  private cmee = 0;
+  private cnmi = '0,0,0,0,0';
+  private cmgf = 0;
+  private csms = 0;
+  private messageReference = 1;
+  private input = '';
+  private pendingSms?: { length: number; command: string };
+  private pendingData?: { length: number; handler: (data: Buffer) => string };
+  private rules: SimulatorRule[] = [];
+  private storage = new Map<number, SimulatorStoredMessage>();
+  private clip = false;
+  private clcc = false;
+  private calls = new Map<number, SimulatorCall>();
+  private ussdResponses: { pattern: string | RegExp; status: number; text: string; dcs: number }[] = [];
+  private bearer = { settings: {} as { [name: string]: string }, open: false };
+  private http?: { parameters: { [name: string]: string }; data?: string; response?: SimulatorHttpResponse };
+  private httpResponses: { pattern: string | RegExp; response: SimulatorHttpResponse }[] = [];
+  private ipStack = { state: 'IP INITIAL', mux: 0, apn: '' };
+  private cops = { mode: 0, format: 0, operator: 0 };
+  private ceng = 0;
+  private cscs = 'IRA';
+  private phonebookStorage = 'SM';
+  private phonebooks = new Map<string, Map<number, SimulatorPhonebookEntry>>();
+  private location = { latitude: 48.85837, longitude: 2.294481 };
+  private unreachableHosts = new Set<string>();
+  private sockets = new Map<number, { protocol: string; host: string; port: number }>();
+  private output: Promise<void> = Promise.resolve();
+  private chunkIndex = 0;
+  private timers = new Set<NodeJS.Timeout>();
+  private poweredDown = false;
+  // the modem clock runs from the host clock, shifted by offset milliseconds
+  private clock = { offset: 0, quarters: 0 };
+  private clts = 0;
+  private ntp = { server: '', quarters: 0 };
+  // serialport asserts DTR when the port is opened
+  private sleep = { mode: 0, dtr: true, lastActivity: Date.now() };
+
+  /**
+   * true once the simulator has been opened, and until it is closed
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get isOpen(): boolean {
+    return this._isOpen;
+  }
+  /**
+   * true while the module sleeps (AT+CSCLK) : in mode 1 nothing is received until DTR is asserted, in mode 2 the first character received wakes it up and is lost
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get isSleeping(): boolean {
+    return (
+      (this.sleep.mode === 1 && !this.sleep.dtr) ||
+      (this.sleep.mode === 2 && Date.now() - this.sleep.lastActivity > this.options.sleepDelay)
+    );
+  }
+
+  /**
+   * Creates a virtual SIM800L speaking the AT dialect used by this library. It implements the Transport interface, pass it to the Sim800L constructor instead of the serialport options
+   *
+   * @param {SimulatorOptions} [options={}] - the behaviour of the virtual modem (pin, echo, response delay, UART chunking...)
+   */
+  constructor(options: SimulatorOptions = {}) {
+    super();
+    this.options = { ...this.options, ...options };
+    this.pin = this.options.pin || '1234';
+    this.pinLock = !!this.options.pin;
+    this.simLocked = this.pinLock;
+  }
+
+  public open = (callback?: TransportCallback) => {
+    this.opening = true;
+    this.schedule(() => {
+      this.opening = false;
+      this._isOpen = true;
+      this.emit('open');
+      if (callback) callback(null);
+    }, 0);
+  };
+
+  public close = (callback?: TransportCallback) => {
+    this._isOpen = false;
+    this.opening = false;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.schedule(() => {
+      this.emit('close');
+      if (callback) callback(null);
+    }, 0);
+  };
+
+  public write = (data: string | Buffer, callback?: TransportCallback) => {
+    if (!this._isOpen) {
+      // like serialport, data written while opening is sent once the port is open
+      if (this.opening) {
+        this.once('open', () => this.write(data, callback));
+      } else if (callback) {
+        callback(new Error('simulator is not open'));
+      }
+      return;
+    }
+    // latin1 keeps one character per byte, the raw data inputs are counted in bytes
+    const input = Buffer.isBuffer(data) ? data.toString('latin1') : Buffer.from(data).toString('latin1');
+    if (this.sleep.mode === 1 && !this.sleep.dtr) {
+      // the UART is off
+      if (callback) callback(null);
+      return;
+    }
+    this.input += this.isSleeping ? input.substring(1) : input;
+    this.sleep.lastActivity = Date.now();
+    this.processInput();
+    if (callback) callback(null);
+  };
+
+  public set = (lines: ControlLines, callback?: TransportCallback) => {
+    if (lines.dtr !== undefined) {
+      this.sleep.dtr = lines.dtr;
+      this.emit('dtr', lines.dtr);
+    }
+    if (callback) this.schedule(() => callback(null), 0);
+  };
+
+  /**
+   * Emits an unsolicited result code (eg: RING, +CMTI: "SM",1, Call Ready...), each line is framed the way the modem does
+   *
+   * @param {...string[]} lines - the lines to emit
+   */
+  public emitUrc(...lines: string[]) {
+    this.send(lines.map((line) => `\r\n${line}\r\n`).join(''));
+  }
+
+  /**
+   * Overrides the response of the commands matching the pattern. The response is sent as is, framing included, a function can be provided to build it from the command
+   *
+   * @param {string | RegExp} pattern - the command (without the trailing \r) or a RegExp matching it
+   * @param {SimulatorResponse} response - the raw response, or a function returning it
+   * @param {number} [times=Infinity] - how many times the override applies
+   */
+  public setResponse(pattern: string | RegExp, response: SimulatorResponse, times = Infinity) {
+    this.rules.push({ pattern, response, times });
+  }
+
+  /**
+   * Makes the next commands matching the pattern fail with a +CME / +CMS error, formatted according to the current AT+CMEE mode
+   *
+   * @param {string | RegExp} pattern - the command (without the trailing \r) or a RegExp matching it
+   * @param {SimulatorError} [error] - the error to return, defaults to a +CME ERROR: 100 (unknown)
+   * @param {number} [times=1] - how many times the error is returned
+   */
+  public injectError(
+    pattern: string | RegExp,
+    error: SimulatorError = { type: 'CME', code: 100, message: 'unknown' },
+    times = 1,
+  ) {
+    this.rules.push({ pattern, response: error, times });
+  }
+
+  /**
+   * Removes every response override and injected error
+   */
+  public clearRules() {
+    this.rules = [];
+  }
+
+  /**
+   * Changes the registration status returned by AT+CREG?, optionally emitting the +CREG URC
+   *
+   * @param {ConnectionStatus} status - the new registration status
+   * @param {boolean} [notify=false] - emits a +CREG: <status> URC if true
+   */
+  public setNetworkStatus(status: ConnectionStatus, notify = false) {
+    this.options.networkStatus = status;
+    if (notify) {
+      this.emitUrc(`+CREG: ${status}`);
+    }
+  }
+
+  /**
+   * Changes the signal quality returned by AT+CSQ
+   *
+   * @param {number} rssi - the raw <rssi>, 0 to 31 or 99 if unknown
+   * @param {number} [ber=0] - the raw <ber>, 0 to 7 or 99 if unknown
+   */
+  public setSignalQuality(rssi: number, ber = 0) {
+    this.options.rssi = rssi;
+    this.options.ber = ber;
+  }
+
+  /**
+   * Changes the supply returned by AT+CBC. Crossing the SIM800L limits (3.5V and 4.3V warnings, 3.4V and 4.4V power down) emits the matching voltage URC, a power down makes the simulator unresponsive until boot() is called
+   *
+   * @param {number} millivolts - the supply voltage
+   * @param {number} [percent] - the battery level, unchanged if not provided
+   */
+  public setPowerSupply(millivolts: number, percent = this.options.batteryPercent) {
+    this.options.millivolts = millivolts;
+    this.options.batteryPercent = percent;
+    if (this.poweredDown) {
+      return;
+    }
+    if (millivolts <= 3400 || millivolts >= 4400) {
+      this.powerDown(millivolts <= 3400 ? 'UNDER-VOLTAGE POWER DOWN' : 'OVER-VOLTAGE POWER DOWN');
+    } else if (millivolts <= 3500 || millivolts >= 4300) {
+      this.emitUrc(millivolts <= 3500 ? 'UNDER-VOLTAGE WARNNING' : 'OVER-VOLTAGE WARNNING');
+    }
+  }
+
+  /**
+   * Simulates the network sending its time on registration : when AT+CLTS=1 is set, the clock is updated and the *PSUTTZ and DST URCs are emitted
+   *
+   * @param {Date} [date=new Date()] - the network time
+   * @param {number} [quarters=0] - the timezone, in quarters of an hour east of UTC
+   * @param {number} [dst=0] - the daylight saving adjustment, in hours
+   */
+  public sendNetworkTime(date = new Date(), quarters = 0, dst = 0) {
+    if (!this.clts) {
+      return;
+    }
+    this.setClock(date, quarters);
+    this.emitUrc(
+      `*PSUTTZ: ${date.getUTCFullYear()},${
+        date.getUTCMonth() + 1
+      },${date.getUTCDate()},${date.getUTCHours()},${date.getUTCMinutes()},${date.getUTCSeconds()},"${
+        quarters < 0 ? '-' : '+'
+      }${Math.abs(quarters)}",${dst}`,
+      `DST: ${dst}`,
+    );
+  }
+
+  /**
+   * Changes the location returned by AT+CIPGSMLOC
+   *
+   * @param {number} latitude - the latitude, in degrees
+   * @param {number} longitude - the longitude, in degrees
+   */
+  public setLocation(latitude: number, longitude: number) {
+    this.location = { latitude, longitude };
+  }
+
+  /**
+   * Simulates an incoming message. It is stored and notified with +CMTI, or pushed as +CMT if the CNMI <mt> is 2 or direct is true
+   *
+   * @param {string} pdu - the SMS-DELIVER PDU, see buildDeliverPdus
+   * @param {boolean} [direct] - forces the direct route
+   * @returns {number | undefined} the storage index of the message, undefined if routed directly
+   */
+  public receiveSms(pdu: string, direct?: boolean): number | undefined {
+    const length = tpduLength(pdu);
+    if (direct ?? this.cnmi.split(',')[1] === '2') {
+      this.emitUrc(`+CMT: ,${length}`, pdu);
+      return;
+    }
+    let index = 1;
+    while (this.storage.has(index)) {
+      index += 1;
+    }
+    if (index > this.options.storageSize) {
+      // A full storage silently drops incoming messages
+      return;
+    }
+    this.storage.set(index, { status: 0, pdu });
+    this.emitUrc(`+CMTI: "SM",${index}`);
+    return index;
+  }
+
+  /**
+   * Simulates a +CDS status report for a previously sent message
+   *
+   * @param {number} reference - the message reference returned by +CMGS
+   * @param {string} [receiver='33600000000'] - the recipient of the original message
+   * @param {string} [status='00'] - the TP-Status byte, 00 means delivered
+   */
+  public sendDeliveryReport(reference: number, receiver = '33600000000', status = '00') {
+    const now = encodeTimestamp(new Date());
+    const tpdu = `06${toHex(reference)}${toHex(receiver.length)}91${swapDigits(receiver)}${now}${now}${status}`;
+    this.emitUrc(`+CDS: ${tpdu.length / 2}`, `00${tpdu}`.toUpperCase());
+  }
+
+  /**
+   * Simulates an incoming call, or another ring of the current one, with the +CLIP caller ID if enabled and a number is provided
+   *
+   * @param {string} [caller] - the caller number
+   */
+  public ring(caller?: string) {
+    if (![...this.calls.values()].some((call) => call.direction === 1 && call.state === 4)) {
+      this.updateCall(this.nextCallIndex(), { direction: 1, state: 4, number: caller || '' });
+    }
+    this.emitUrc(...(caller && this.clip ? ['RING', `+CLIP: "${caller}",145,"",0,"",0`] : ['RING']));
+  }
+
+  /**
+   * Simulates the remote party answering the call being dialed
+   */
+  public answerCall() {
+    this.calls.forEach((call, index) => {
+      if (call.direction === 0 && [2, 3].includes(call.state)) {
+        this.updateCall(index, { ...call, state: 0 });
+      }
+    });
+  }
+
+  /**
+   * Simulates the end of every call by the remote party or the network
+   *
+   * @param {string} [result='NO CARRIER'] - the final result code (NO CARRIER, BUSY, NO ANSWER)
+   */
+  public endCall(result = 'NO CARRIER') {
+    this.calls.forEach((call, index) => this.updateCall(index, { ...call, state: 6 }));
+    this.emitUrc(result);
+  }
+
+  /**
+   * Sets the network response to the USSD codes (or menu answers) matching the pattern, unknown codes are answered with a +CUSD: 4 (not supported)
+   *
+   * @param {string | RegExp} pattern - the USSD code (eg: *100#) or a RegExp matching it
+   * @param {string} text - the response text, hex encoded if the dcs is UCS2
+   * @param {number} [status=0] - the +CUSD status, 1 keeps the session open for a menu answer
+   * @param {number} [dcs=15] - the data coding scheme of the response
+   */
+  public setUssdResponse(pattern: string | RegExp, text: string, status = 0, dcs = 15) {
+    this.ussdResponses.unshift({ pattern, status, text, dcs });
+  }
+
+  /**
+   * Simulates a network initiated USSD message
+   *
+   * @param {string} text - the message, hex encoded if the dcs is UCS2
+   * @param {number} [status=0] - the +CUSD status, 1 if the network expects an answer
+   * @param {number} [dcs=15] - the data coding scheme of the message
+   */
+  public pushUssd(text: string, status = 0, dcs = 15) {
+    this.emitUrc(`+CUSD: ${status},"${text}",${dcs}`);
+  }
+
+  /**
+   * Sets the response of the HTTP requests whose URL matches the pattern, other URLs are answered with a 404
+   *
+   * @param {string | RegExp} pattern - the URL or a RegExp matching it
+   * @param {SimulatorHttpResponse} response - the status, headers and body of the response
+   */
+  public setHttpResponse(pattern: string | RegExp, response: SimulatorHttpResponse) {
+    this.httpResponses.unshift({ pattern, response });
+  }
+
+  /**
+   * Makes the connections to the host fail (CONNECT FAIL), or succeed again
+   *
+   * @param {string} host - the host name or address
+   * @param {boolean} [reachable=false] - false to make the connections fail
+   */
+  public setHostReachable(host: string, reachable = false) {
+    if (reachable) {
+      this.unreachableHosts.delete(host);
+    } else {
+      this.unreachableHosts.add(host);
+    }
+  }
+
+  /**
+   * Simulates data received on an open connection, framed with a +RECEIVE header (AT+CIPMUX=1). The data written to a connection is emitted through the socketdata event
+   *
+   * @param {number} link - the connection number
+   * @param {string | Buffer} data - the received data
+   */
+  public receiveSocketData(link: number, data: string | Buffer) {
+    const payload = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    this.sendRaw(Buffer.concat([Buffer.from(`\r\n+RECEIVE,${link},${payload.length}:\r\n`), payload]));
+  }
+
+  /**
+   * Simulates the remote host closing a connection
+   *
+   * @param {number} link - the connection number
+   */
+  public closeRemoteSocket(link: number) {
+    if (this.sockets.delete(link)) {
+      this.emitUrc(`${link}, CLOSED`);
+    }
+  }
+
+  /**
+   * Simulates the network deactivating the GPRS context, every connection is lost
+   */
+  public deactivatePdp() {
+    this.sockets.clear();
+    this.ipStack.state = 'PDP DEACT';
+    this.emitUrc('+PDP: DEACT');
+  }
+
+  /**
+   * Simulates a cold boot, emitting the URCs of a SIM800L powering up
+   */
+  public boot() {
+    this.poweredDown = false;
+    this.sleep.mode = 0;
+    this.input = '';
+    this.pendingSms = undefined;
+    this.cmee = 0;
+    this.cnmi = '0,0,0,0,0';
+    this.cops = { mode: 0, format: 0, operator: 0 };
+    this.ceng = 0;
+    this.cscs = 'IRA';
+    this.phonebookStorage = 'SM';
+    this.clip = false;
+    this.clcc = false;
+    this.calls.clear();
+    this.bearer.open = false;
+    this.http = undefined;
+    this.pendingData = undefined;
+    this.ipStack = { state: 'IP INITIAL', mux: 0, apn: '' };
+    this.sockets.clear();
+    this.simLocked = this.pinLock && !this.pukLocked;
+    this.emitUrc('RDY', '+CFUN: 1', `+CPIN: ${this.pinStatus()}`);
+    if (!this.simLocked && !this.pukLocked) {
+      this.emitUrc('Call Ready', 'SMS Ready');
+    }
+  }
+
+  /**
+   * Builds the SMS-DELIVER PDU(s) of a message sent to the modem, in UCS2. Long texts are split into concatenated parts
+   *
+   * @param {string} sender - the sender number (international format, without +)
+   * @param {string} text - the content of the message
+   * @param {Date} [date=new Date()] - the SMSC timestamp
+   * @returns {string[]} The PDUs, one per part
+   */
+  static buildDeliverPdus(sender: string, text: string, date = new Date()): string[] {
+    const smsc = '0791' + swapDigits('33689004000');
+    const address = `${toHex(sender.length)}91${swapDigits(sender)}`;
+    const chunks = text.length > 70 ? text.match(/[\s\S]{1,67}/g)! : [text];
+    const reference = toHex(Math.floor(Math.random() * 256));
+    return chunks.map((chunk, i) => {
+      const userData = Buffer.from(chunk, 'utf16le').swap16().toString('hex');
+      const header = chunks.length > 1 ? `050003${reference}${toHex(chunks.length)}${toHex(i + 1)}` : '';
+      const firstOctet = chunks.length > 1 ? '44' : '04';
+      const length = (header.length + userData.length) / 2;
+      return `${smsc}${firstOctet}${address}0008${encodeTimestamp(date)}${toHex(
+        length,
+      )}${header}${userData}`.toUpperCase();
+    });
+  }
+
+  private processInput() {
+    while (this.input.length) {
+      if (this.pendingData) {
+        // Raw data input (AT+HTTPDATA, AT+CIPSEND), the announced number of bytes is read as is
+        const { length, handler } = this.pendingData;
+        const input = Buffer.from(this.input, 'latin1');
+        if (input.length < length) {
+          return;
+        }
+        this.input = input.subarray(length).toString('latin1');
+        this.pendingData = undefined;
+        this.respond(handler(input.subarray(0, length)));
+        continue;
+      }
+      if (this.pendingSms) {
+        // Waiting for the PDU, terminated by Ctrl-Z or cancelled by ESC
+        const inputEnd = this.input.search(/[\x1a\x1b]/);
+        if (inputEnd < 0) {
+          return;
+        }
+        const pdu = this.input.substring(0, inputEnd).trim();
+        const cancelled = this.input[inputEnd] === ESC;
+        this.input = this.input.substring(inputEnd + 1);
+        this.handleSmsInput(pdu, cancelled);
+        continue;
+      }
+      const end = this.input.indexOf('\r');
+      if (end < 0) {
+        // stray escape characters outside of the SMS input mode are ignored
+        this.input = this.input.replace(/[\x1a\x1b]/g, '');
+        return;
+      }
+      const command = Buffer.from(this.input.substring(0, end), 'latin1')
+        .toString()
+        .replace(/[\x1a\x1b\n]/g, '')
+        .trim();
+      this.input = this.input.substring(end + 1);
+      if (command.length) {
+        this.handleCommand(command);
+      }
+    }
+  }
+
+  private handleCommand(command: string) {
+    this.commands.push(command);
+    this.emit('command', command);
+    if (!this.responsive || this.poweredDown) {
+      return;
+    }
+    if (this.options.echo) {
+      this.send(`${command}\r`);
+    }
+    const rule = this.rules.find((item) =>
+      typeof item.pattern === 'string' ? item.pattern === command : item.pattern.test(command),
+    );
+    if (rule) {
+      rule.times -= 1;
+      if (rule.times <= 0) {
+        this.rules.splice(this.rules.indexOf(rule), 1);
+      }
+      const response =
+        typeof rule.response === 'function'
+          ? rule.response(command)
+          : typeof rule.response === 'string'
+          ? rule.response
+          : this.formatError(rule.response);
+      if (response !== undefined) {
+        this.respond(response);
+        return;
+      }
+    }
+    this.respond(this.execute(command));
+  }
+
+  private execute(command: string): string {
+    const upper = command.toUpperCase();
+    if (upper === 'AT') {
+      return ok();
+    }
+    if (upper.startsWith('AT+CMEE=')) {
+      this.cmee = parseInt(command.substring(8), 10) || 0;
+      return ok();
+    }
+    if (upper === 'AT+CPIN?') {
+      return `\r\n+CPIN: ${this.pinStatus()}\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CPIN=')) {
+      const [code, newPin] = splitArguments(command.substring(8));
+      return this.unlock(code, newPin);
+    }
+    if (upper.startsWith('AT+CPWD=') || upper.startsWith('AT+CLCK=') || upper === 'AT+SPIC') {
+      return this.executeSecurity(command);
+    }
+    if (this.simLocked || this.pukLocked) {
+      if (
+        ['AT+CNMI', 'AT+CMGF', 'AT+CMGS', 'AT+CMGR', 'AT+CMGL', 'AT+CMGD', 'AT+CPMS'].some((key) =>
+          upper.startsWith(key),
+        )
+      ) {
+        return this.formatError({ type: 'CME', code: 11, message: 'SIM PIN required' });
+      }
+    }
+    if (upper.startsWith('AT+CNMI=')) {
+      this.cnmi = command.substring(8);
+      return ok();
+    }
+    if (upper.startsWith('AT+CMGF=')) {
+      this.cmgf = parseInt(command.substring(8), 10) || 0;
+      return ok();
+    }
+    if (['ATI', 'AT+CGMI', 'AT+CGMM', 'AT+CGMR', 'AT+GSN', 'AT+CIMI', 'AT+CCID', 'AT+CNUM'].includes(upper)) {
+      return this.identity(upper);
+    }
+    if (upper.startsWith('AT+CSCS=')) {
+      const charset = command.substring(8).replace(/"/g, '');
+      if (!['IRA', 'GSM', 'UCS2'].includes(charset)) {
+        return '\r\nERROR\r\n';
+      }
+      this.cscs = charset;
+      return ok();
+    }
+    if (upper.startsWith('AT+CPB')) {
+      return this.executePhonebook(command);
+    }
+    if (upper.startsWith('AT+CENG=')) {
+      this.ceng = parseInt(command.substring(8), 10) || 0;
+      return ok();
+    }
+    if (upper === 'AT+CENG?') {
+      return this.engineeringReport();
+    }
+    if (upper === 'AT+CIPGSMLOC=1,1') {
+      if (!this.bearer.open) {
+        return `\r\n+CIPGSMLOC: 601\r\n${ok()}`;
+      }
+      const date = new Date().toISOString();
+      const { latitude, longitude } = this.location;
+      return `\r\n+CIPGSMLOC: 0,${longitude.toFixed(6)},${latitude.toFixed(6)},${date
+        .substring(0, 10)
+        .replace(/-/g, '/')},${date.substring(11, 19)}\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CSCLK=')) {
+      const mode = parseInt(command.substring(9), 10);
+      if (![0, 1, 2].includes(mode)) {
+        return '\r\nERROR\r\n';
+      }
+      this.sleep.mode = mode;
+      return ok();
+    }
+    if (upper === 'AT+CSCLK?') {
+      return `\r\n+CSCLK: ${this.sleep.mode}\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CPOWD=')) {
+      // the urgent power down (0) does not say anything
+      this.powerDown(upper === 'AT+CPOWD=1' ? 'NORMAL POWER DOWN' : undefined);
+      return '';
+    }
+    if (upper === 'AT+CBC') {
+      return `\r\n+CBC: 0,${this.options.batteryPercent},${this.options.millivolts}\r\n${ok()}`;
+    }
+    if (upper === 'AT+CSQ') {
+      return `\r\n+CSQ: ${this.options.rssi},${this.options.ber}\r\n${ok()}`;
+    }
+    if (upper === 'AT+CREG?') {
+      return `\r\n+CREG: 0,${this.options.networkStatus}\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CFUN=')) {
+      const [fun, rst] = command.substring(8).split(',');
+      if (rst === '1') {
+        this.schedule(() => this.boot(), this.options.rebootDelay);
+      }
+      return fun === '0' || fun === '1' || fun === '4'
+        ? ok()
+        : this.formatError({ type: 'CME', code: 3, message: 'operation not allowed' });
+    }
+    if (upper.startsWith('AT+CMGS=')) {
+      if (this.cmgf !== 0) {
+        return this.formatError({ type: 'CMS', code: 302, message: 'operation not allowed' });
+      }
+      this.pendingSms = { length: parseInt(command.substring(8), 10), command };
+      return '\r\n> ';
+    }
+    if (upper.startsWith('AT+CMGR=')) {
+      const index = parseInt(command.substring(8), 10);
+      const message = this.storage.get(index);
+      if (!message) {
+        return ok();
+      }
+      const response = `\r\n+CMGR: ${message.status},,${tpduLength(message.pdu)}\r\n${message.pdu}\r\n${ok()}`;
+      message.status = message.status === 0 ? 1 : message.status;
+      return response;
+    }
+    if (upper.startsWith('AT+CMGL=')) {
+      const stat = parseInt(command.substring(8), 10);
+      let response = '';
+      this.storage.forEach((message, index) => {
+        if (stat === 4 || message.status === stat) {
+          response += `\r\n+CMGL: ${index},${message.status},,${tpduLength(message.pdu)}\r\n${message.pdu}`;
+          message.status = message.status === 0 ? 1 : message.status;
+        }
+      });
+      return `${response}${response.length ? '\r\n' : ''}${ok()}`;
+    }
+    if (upper.startsWith('AT+CMGD=')) {
+      const [index, flag] = command
+        .substring(8)
+        .split(',')
+        .map((value) => parseInt(value, 10));
+      if (flag) {
+        this.storage.forEach((message, key) => {
+          if (
+            flag === 4 ||
+            (flag >= 1 && message.status === 1) ||
+            (flag >= 2 && message.status === 3) ||
+            (flag >= 3 && message.status === 2)
+          ) {
+            this.storage.delete(key);
+          }
+        });
+      } else {
+        this.storage.delete(index);
+      }
+      return ok();
+    }
+    if (upper === 'AT+CPMS?') {
+      const used = this.storage.size;
+      const total = this.options.storageSize;
+      return `\r\n+CPMS: "SM",${used},${total},"SM",${used},${total},"SM",${used},${total}\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CPMS=')) {
+      const used = this.storage.size;
+      const total = this.options.storageSize;
+      return `\r\n+CPMS: ${used},${total},${used},${total},${used},${total}\r\n${ok()}`;
+    }
+    if (upper === 'AT+CSMS?') {
+      return `\r\n+CSMS: ${this.csms},1,1,1\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CSMS=')) {
+      const service = parseInt(command.substring(8), 10);
+      if (![0, 1].includes(service)) {
+        return '\r\nERROR\r\n';
+      }
+      this.csms = service;
+      return `\r\n+CSMS: 1,1,1\r\n${ok()}`;
+    }
+    if (upper === 'AT+CNMA') {
+      // acknowledgements are only expected with the phase 2+ service
+      return this.csms === 1
+        ? ok()
+        : this.formatError({ type: 'CMS', code: 340, message: 'no +CNMA acknowledgement expected' });
+    }
+    if (upper.startsWith('AT+CLIP=')) {
+      this.clip = command.substring(8) === '1';
+      return ok();
+    }
+    if (upper.startsWith('AT+CLCC=')) {
+      this.clcc = command.substring(8) === '1';
+      return ok();
+    }
+    if (upper === 'AT+CLCC') {
+      let response = '';
+      this.calls.forEach((call, index) => (response += `\r\n${formatCall(index, call)}`));
+      return `${response}${response.length ? '\r\n' : ''}${ok()}`;
+    }
+    if (upper.startsWith('AT+CUSD=')) {
+      const [mode, code] = command.substring(8).split(',');
+      if (mode === '1' && code) {
+        const request = code.replace(/"/g, '');
+        const response = this.ussdResponses.find((item) =>
+          typeof item.pattern === 'string' ? item.pattern === request : item.pattern.test(request),
+        );
+        // the network answers a few seconds after the OK
+        this.schedule(
+          () => this.emitUrc(response ? `+CUSD: ${response.status},"${response.text}",${response.dcs}` : '+CUSD: 4'),
+          this.options.responseDelay * 5,
+        );
+      }
+      return ok();
+    }
+    if (upper.startsWith('AT+CCLK') || upper.startsWith('AT+CLTS') || upper.startsWith('AT+CNTP') || upper === 'AT&W') {
+      return this.executeClock(command);
+    }
+    if (upper.startsWith('AT+SAPBR=') || upper.startsWith('AT+HTTP')) {
+      return this.executeHttp(command);
+    }
+    if (upper.startsWith('AT+COPS')) {
+      return this.executeCops(command);
+    }
+    if (upper.startsWith('AT+CIP') || upper.startsWith('AT+CSTT') || ['AT+CIICR', 'AT+CIFSR'].includes(upper)) {
+      return this.executeIp(command);
+    }
+    if (upper.startsWith('ATD')) {
+      return this.dial(command.substring(3).replace(/;$/, ''));
+    }
+    if (upper === 'ATA') {
+      const ringing = [...this.calls.entries()].find(([, call]) => call.direction === 1 && call.state === 4);
+      if (!ringing) {
+        return '\r\nNO CARRIER\r\n';
+      }
+      this.schedule(() => this.updateCall(ringing[0], { ...ringing[1], state: 0 }), this.options.responseDelay * 2);
+      return ok();
+    }
+    if (upper === 'ATH' || upper === 'ATH0') {
+      this.schedule(
+        () => this.calls.forEach((call, index) => this.updateCall(index, { ...call, state: 6 })),
+        this.options.responseDelay * 2,
+      );
+      return ok();
+    }
+    return '\r\nERROR\r\n';
+  }
+
+  private handleSmsInput(pdu: string, cancelled: boolean) {
+    const pending = this.pendingSms!;
+    this.pendingSms = undefined;
+    if (this.options.echo) {
+      this.send(pdu);
+    }
+    if (cancelled) {
+      this.respond(ok());
+      return;
+    }
+    if (!/^([0-9A-F]{2})+$/i.test(pdu) || tpduLength(pdu) !== pending.length) {
+      this.respond(this.formatError({ type: 'CMS', code: 304, message: 'Invalid PDU mode parameter' }));
+      return;
+    }
+    const rule = this.rules.find((item) =>
+      typeof item.pattern === 'string' ? item.pattern === pending.command : item.pattern.test(pending.command),
+    );
+    if (rule && typeof rule.response !== 'string' && typeof rule.response !== 'function') {
+      // errors injected on AT+CMGS are returned once the PDU has been submitted, the way the network does
+      rule.times -= 1;
+      if (rule.times <= 0) {
+        this.rules.splice(this.rules.indexOf(rule), 1);
+      }
+      this.respond(this.formatError(rule.response));
+      return;
+    }
+    const reference = this.messageReference;
+    this.messageReference = (this.messageReference + 1) % 256;
+    this.respond(`\r\n+CMGS: ${reference}\r\n${ok()}`);
+    const submit = parseSubmit(pdu);
+    if (submit.statusReportRequested && this.cnmi.split(',')[3] === '1') {
+      this.schedule(() => this.sendDeliveryReport(reference, submit.receiver), this.options.deliveryReportDelay);
+    }
+  }
+
+  private executeClock(command: string): string {
+    const upper = command.toUpperCase();
+    const [, argument = ''] = command.split('=');
+    const args = splitArguments(argument);
+    if (upper === 'AT+CCLK?') {
+      return `\r\n+CCLK: "${formatClock(new Date(Date.now() + this.clock.offset), this.clock.quarters)}"\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CCLK=')) {
+      const match = /^(\d{2})\/(\d{2})\/(\d{2}),(\d{2}):(\d{2}):(\d{2})([+-]\d{2})$/.exec(args[0] || '');
+      if (!match) {
+        return '\r\nERROR\r\n';
+      }
+      const [year, month, day, hours, minutes, seconds, quarters] = match.slice(1).map((value) => parseInt(value, 10));
+      this.setClock(
+        new Date(Date.UTC(2000 + year, month - 1, day, hours, minutes, seconds) - quarters * 15 * 60000),
+        quarters,
+      );
+      return ok();
+    }
+    if (upper === 'AT+CLTS?') {
+      return `\r\n+CLTS: ${this.clts}\r\n${ok()}`;
+    }
+    if (upper.startsWith('AT+CLTS=')) {
+      this.clts = parseInt(args[0], 10) ? 1 : 0;
+      return ok();
+    }
+    if (upper.startsWith('AT+CNTPCID=') || upper === 'AT&W') {
+      return ok();
+    }
+    if (upper.startsWith('AT+CNTP=')) {
+      this.ntp = { server: args[0], quarters: parseInt(args[1], 10) || 0 };
+      return ok();
+    }
+    if (upper === 'AT+CNTP') {
+      const synced = this.bearer.open && !this.unreachableHosts.has(this.ntp.server);
+      this.schedule(() => {
+        if (synced) {
+          this.setClock(new Date(), this.ntp.quarters);
+        }
+        this.emitUrc(`+CNTP: ${synced ? 1 : 61}`);
+      }, this.options.responseDelay * 5);
+      return ok();
+    }
+    return '\r\nERROR\r\n';
+  }
+
+  private setClock(date: Date, quarters: number) {
+    this.clock = { offset: date.getTime() - Date.now(), quarters };
+  }
+
+  private executeHttp(command: string): string {
+    const upper = command.toUpperCase();
+    const [name, argument = ''] = command.split('=');
+    const args = splitArguments(argument);
+    if (upper.startsWith('AT+SAPBR=')) {
+      const [action, , key, value] = args;
+      if (action === '3') {
+        this.bearer.settings[key.toUpperCase()] = value;
+        return ok();
+      }
+      if (action === '2') {
+        return `\r\n+SAPBR: 1,${this.bearer.open ? '1,"10.0.0.2"' : '3,"0.0.0.0"'}\r\n${ok()}`;
+      }
+      if (action === '1') {
+        if (
+          this.bearer.open ||
+          !this.bearer.settings.APN ||
+          ![ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(this.options.networkStatus)
+        ) {
+          return '\r\nERROR\r\n';
+        }
+        this.bearer.open = true;
+        return ok();
+      }
+      if (action === '0') {
+        const wasOpen = this.bearer.open;
+        this.bearer.open = false;
+        return wasOpen ? ok() : '\r\nERROR\r\n';
+      }
+      return '\r\nERROR\r\n';
+    }
+    if (upper === 'AT+HTTPINIT') {
+      if (this.http) {
+        return '\r\nERROR\r\n';
+      }
+      this.http = { parameters: {} };
+      return ok();
+    }
+    if (upper === 'AT+HTTPTERM') {
+      const wasInitialized = !!this.http;
+      this.http = undefined;
+      return wasInitialized ? ok() : '\r\nERROR\r\n';
+    }
+    if (!this.http) {
+      return '\r\nERROR\r\n';
+    }
+    const http = this.http;
+    switch (name.toUpperCase()) {
+      case 'AT+HTTPPARA':
+        http.parameters[args[0].toUpperCase()] = args[1];
+        return ok();
+      case 'AT+HTTPSSL':
+        http.parameters.SSL = args[0];
+        return ok();
+      case 'AT+HTTPDATA':
+        this.pendingData = {
+          length: parseInt(args[0], 10),
+          handler: (data) => {
+            http.data = data.toString();
+            return ok();
+          },
+        };
+        return '\r\nDOWNLOAD\r\n';
+      case 'AT+HTTPACTION': {
+        const method = parseInt(args[0], 10);
+        const url = http.parameters.URL || '';
+        this.httpRequests.push({ method, url, parameters: { ...http.parameters }, data: http.data });
+        const rule = this.httpResponses.find((item) =>
+          typeof item.pattern === 'string' ? item.pattern === url : item.pattern.test(url),
+        );
+        const response = this.bearer.open ? (rule ? rule.response : { status: 404 }) : { status: 601 };
+        http.response = response;
+        // the server answers after the OK
+        this.schedule(
+          () => this.emitUrc(`+HTTPACTION: ${method},${response.status},${Buffer.byteLength(response.body || '')}`),
+          this.options.responseDelay * 5,
+        );
+        return ok();
+      }
+      case 'AT+HTTPHEAD': {
+        const headers = Object.entries((http.response && http.response.headers) || {})
+          .map(([key, value]) => `${key}: ${value}\r\n`)
+          .join('');
+        return `\r\n+HTTPHEAD: ${Buffer.byteLength(headers)}\r\n${headers}${ok()}`;
+      }
+      case 'AT+HTTPREAD': {
+        const content = (http.response && http.response.body) || '';
+        const body = typeof content === 'string' ? Buffer.from(content) : content;
+        // the body may be binary, it is sent as is
+        const response = Buffer.concat([Buffer.from(`\r\n+HTTPREAD: ${body.length}\r\n`), body, Buffer.from(ok())]);
+        this.schedule(() => this.sendRaw(response), this.options.responseDelay);
+        return '';
+      }
+      default:
+        return '\r\nERROR\r\n';
+    }
+  }
+
+  private executeCops(command: string): string {
+    const upper = command.toUpperCase();
+    const operators = this.options.operators;
+    const registered = [ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(this.options.networkStatus);
+    if (upper === 'AT+COPS?') {
+      const operator = operators[this.cops.operator];
+      if (!registered || !operator) {
+        return `\r\n+COPS: ${this.cops.mode}\r\n${ok()}`;
+      }
+      const name = [operator.longName, operator.shortName, operator.numeric][this.cops.format];
+      return `\r\n+COPS: ${this.cops.mode},${this.cops.format},"${name}"\r\n${ok()}`;
+    }
+    if (upper === 'AT+COPS=?') {
+      const list = operators
+        .map((operator, index) => {
+          const status = operator.forbidden ? 3 : registered && index === this.cops.operator ? 2 : 1;
+          return `(${status},"${operator.longName}","${operator.shortName}","${operator.numeric}")`;
+        })
+        .join(',');
+      // the scan takes a while, nothing is answered before its end
+      this.schedule(() => this.send(`\r\n+COPS: ${list},,(0-4),(0-2)\r\n${ok()}`), this.options.responseDelay * 10);
+      return '';
+    }
+    const [mode, format, id] = splitArguments(command.substring(8));
+    switch (mode) {
+      case '0':
+        this.cops.mode = 0;
+        this.register(0);
+        return ok();
+      case '1':
+      case '4': {
+        const index = operators.findIndex((operator) =>
+          format === '2' ? operator.numeric === id : [operator.longName, operator.shortName].includes(id),
+        );
+        if (index < 0 || operators[index].forbidden) {
+          if (mode === '4') {
+            this.cops.mode = 4;
+            this.register(0);
+            return ok();
+          }
+          return this.formatError({ type: 'CME', code: 32, message: 'network not allowed - emergency calls only' });
+        }
+        this.cops.mode = parseInt(mode, 10);
+        this.register(index);
+        return ok();
+      }
+      case '2':
+        this.cops.mode = 2;
+        this.setNetworkStatus(ConnectionStatus.NOT_REGISTERED_IDLE);
+        return ok();
+      case '3':
+        this.cops.format = parseInt(format, 10) || 0;
+        return ok();
+      default:
+        return '\r\nERROR\r\n';
+    }
+  }
+
+  private executePhonebook(command: string): string {
+    const upper = command.toUpperCase();
+    const [name, argument] = command.split('=');
+    const args = splitArguments(argument || '');
+    if (!this.phonebooks.has(this.phonebookStorage)) {
+      this.phonebooks.set(this.phonebookStorage, new Map());
+    }
+    const phonebook = this.phonebooks.get(this.phonebookStorage)!;
+    const size = this.options.phonebookSize;
+    const notFound = this.formatError({ type: 'CME', code: 22, message: 'not found' });
+    // in UCS2, numbers and names are exchanged hex encoded
+    const encode = (text: string) =>
+      this.cscs === 'UCS2' ? Buffer.from(text, 'utf16le').swap16().toString('hex').toUpperCase() : text;
+    const decode = (text: string) =>
+      this.cscs === 'UCS2' ? Buffer.from(text, 'hex').swap16().toString('utf16le') : text;
+    const format = (prefix: string, index: number, entry: SimulatorPhonebookEntry) =>
+      `\r\n${prefix}: ${index},"${encode(entry.number)}",${entry.type},"${encode(entry.name)}"`;
+    if (upper === 'AT+CPBS?') {
+      return `\r\n+CPBS: "${this.phonebookStorage}",${phonebook.size},${size}\r\n${ok()}`;
+    }
+    switch (name.toUpperCase()) {
+      case 'AT+CPBS':
+        if (!['SM', 'ME', 'FD', 'ON', 'LD', 'MC', 'RC', 'EN'].includes(args[0])) {
+          return '\r\nERROR\r\n';
+        }
+        this.phonebookStorage = args[0];
+        return ok();
+      case 'AT+CPBR': {
+        const start = parseInt(args[0], 10);
+        const end = args[1] ? parseInt(args[1], 10) : start;
+        if (!(start >= 1 && end <= size && start <= end)) {
+          return this.formatError({ type: 'CME', code: 21, message: 'invalid index' });
+        }
+        const entries = [...phonebook.entries()]
+          .filter(([index]) => index >= start && index <= end)
+          .sort(([a], [b]) => a - b);
+        return `${entries.map(([index, entry]) => format('+CPBR', index, entry)).join('')}${
+          entries.length ? '\r\n' : ''
+        }${ok()}`;
+      }
+      case 'AT+CPBF': {
+        const search = decode(args[0] || '').toLowerCase();
+        const entries = [...phonebook.entries()].filter(([, entry]) => entry.name.toLowerCase().startsWith(search));
+        if (!entries.length) {
+          return notFound;
+        }
+        return `${entries.map(([index, entry]) => format('+CPBF', index, entry)).join('')}\r\n${ok()}`;
+      }
+      case 'AT+CPBW': {
+        // the index is left empty to write at the first free one
+        const [index, phoneNumber, type, text] = splitArguments(argument.replace(/^,/, '0,'));
+        let slot = parseInt(index, 10) || 0;
+        if (phoneNumber === undefined) {
+          // deleting
+          return phonebook.delete(slot) ? ok() : slot >= 1 && slot <= size ? ok() : notFound;
+        }
+        if (!slot) {
+          slot = 1;
+          while (phonebook.has(slot)) {
+            slot += 1;
+          }
+        }
+        if (slot > size) {
+          return this.formatError({ type: 'CME', code: 20, message: 'memory full' });
+        }
+        phonebook.set(slot, { number: decode(phoneNumber), type: parseInt(type, 10) || 129, name: decode(text || '') });
+        return ok();
+      }
+      default:
+        return '\r\nERROR\r\n';
+    }
+  }
+
+  private identity(command: string): string {
+    const locked = this.simLocked || this.pukLocked;
+    const simNotReady = this.formatError({ type: 'CME', code: 11, message: 'SIM PIN required' });
+    switch (command) {
+      case 'ATI':
+        return `\r\nSIM800 R14.18\r\n${ok()}`;
+      case 'AT+CGMI':
+        return `\r\nSIMCOM_Ltd\r\n${ok()}`;
+      case 'AT+CGMM':
+        return `\r\nSIMCOM_SIM800L\r\n${ok()}`;
+      case 'AT+CGMR':
+        return `\r\nRevision:1418B04SIM800L24\r\n${ok()}`;
+      case 'AT+GSN':
+        return `\r\n${this.options.imei}\r\n${ok()}`;
+      case 'AT+CIMI':
+        return locked ? simNotReady : `\r\n${this.options.imsi}\r\n${ok()}`;
+      case 'AT+CCID':
+        return `\r\n${this.options.iccid}\r\n${ok()}`;
+      default: {
+        const ownNumber = this.options.ownNumber;
+        if (locked) {
+          return simNotReady;
+        }
+        return ownNumber
+          ? `\r\n+CNUM: "","${ownNumber}",${ownNumber.startsWith('+') ? 145 : 129},7,4\r\n\r\n${ok()}`
+          : ok();
+      }
+    }
+  }
+
+  private powerDown(line?: string) {
+    if (line) {
+      this.emitUrc(line);
+    }
+    this.poweredDown = true;
+    this.calls.clear();
+    this.sockets.clear();
+  }
+
+  private engineeringReport(): string {
+    const registered = [ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(this.options.networkStatus);
+    const operator = this.options.operators[this.cops.operator];
+    const [mcc, mnc] = operator ? [operator.numeric.substring(0, 3), operator.numeric.substring(3)] : ['000', '00'];
+    const rxl = Math.min(63, this.options.rssi === 99 ? 0 : this.options.rssi * 2 + 3);
+    const cells = [
+      registered ? `"0017,${rxl},00,${mcc},${mnc},53,a1b2,05,00,0c3d,1"` : '"0000,00,00,000,00,00,ffff,00,00,0000,0"',
+      registered ? `"0024,${Math.max(0, rxl - 8)},41,a1c4,${mcc},${mnc},0c3d"` : '"0000,00,00,ffff,000,00,0"',
+      '"0000,00,00,ffff,000,00,0"',
+    ];
+    const report = cells.map((cell, index) => `+CENG: ${index},${cell}\r\n`).join('');
+    return `\r\n+CENG: ${this.ceng},1\r\n\r\n${report}${ok()}`;
+  }
+
+  private register(operator: number) {
+    this.cops.operator = operator;
+    this.setNetworkStatus(operator === 0 ? ConnectionStatus.REGISTERED : ConnectionStatus.ROAMING);
+  }
+
+  private executeIp(command: string): string {
+    const upper = command.toUpperCase();
+    const [name, argument = ''] = command.split('=');
+    const args = splitArguments(argument);
+    const registered = [ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(this.options.networkStatus);
+    switch (name.toUpperCase()) {
+      case 'AT+CIPSHUT':
+        this.ipStack.state = 'IP INITIAL';
+        this.sockets.clear();
+        return '\r\nSHUT OK\r\n';
+      case 'AT+CIPMUX':
+        if (this.ipStack.state !== 'IP INITIAL') {
+          return '\r\nERROR\r\n';
+        }
+        this.ipStack.mux = parseInt(args[0], 10);
+        return ok();
+      case 'AT+CSTT':
+        if (this.ipStack.state !== 'IP INITIAL') {
+          return '\r\nERROR\r\n';
+        }
+        this.ipStack = { ...this.ipStack, state: 'IP START', apn: args[0] };
+        return ok();
+      case 'AT+CIICR':
+        if (this.ipStack.state !== 'IP START' || !registered) {
+          return '\r\nERROR\r\n';
+        }
+        this.ipStack.state = 'IP GPRSACT';
+        return ok();
+      case 'AT+CIFSR':
+        if (this.ipStack.state === 'IP INITIAL' || this.ipStack.state === 'IP START') {
+          return '\r\nERROR\r\n';
+        }
+        this.ipStack.state = 'IP STATUS';
+        return '\r\n10.0.0.3\r\n';
+      case 'AT+CIPSTART': {
+        const [link, protocol, host, port] = args;
+        if (this.ipStack.mux !== 1 || this.ipStack.state !== 'IP STATUS') {
+          return '\r\nERROR\r\n';
+        }
+        if (this.sockets.has(parseInt(link, 10))) {
+          return `\r\n${link}, ALREADY CONNECT\r\n`;
+        }
+        const connected = !this.unreachableHosts.has(host);
+        if (connected) {
+          this.sockets.set(parseInt(link, 10), { protocol, host, port: parseInt(port, 10) });
+        }
+        this.schedule(
+          () => this.emitUrc(`${link}, ${connected ? 'CONNECT OK' : 'CONNECT FAIL'}`),
+          this.options.responseDelay * 5,
+        );
+        return ok();
+      }
+      case 'AT+CIPSEND': {
+        const link = parseInt(args[0], 10);
+        if (!this.sockets.has(link)) {
+          return '\r\nERROR\r\n';
+        }
+        this.pendingData = {
+          length: parseInt(args[1], 10),
+          handler: (data) => {
+            this.emit('socketdata', link, data);
+            return `\r\n${link}, SEND OK\r\n`;
+          },
+        };
+        return '\r\n> ';
+      }
+      case 'AT+CIPCLOSE': {
+        const link = parseInt(args[0], 10);
+        if (!this.sockets.delete(link)) {
+          return '\r\nERROR\r\n';
+        }
+        return `\r\n${link}, CLOSE OK\r\n`;
+      }
+      default:
+        return upper === 'AT+CIPSTATUS' ? `${ok()}\r\nSTATE: ${this.ipStack.state}\r\n` : '\r\nERROR\r\n';
+    }
+  }
+
+  private dial(phoneNumber: string): string {
+    if (
+      this.simLocked ||
+      this.pukLocked ||
+      ![ConnectionStatus.REGISTERED, ConnectionStatus.ROAMING].includes(this.options.networkStatus)
+    ) {
+      return '\r\nNO CARRIER\r\n';
+    }
+    const index = this.nextCallIndex();
+    const call = { direction: 0, state: 2, number: phoneNumber };
+    // the call is set up after the OK, the remote party rings until answerCall() or endCall() is called
+    this.schedule(() => this.updateCall(index, call), this.options.responseDelay * 2);
+    this.schedule(() => {
+      if (this.calls.get(index)?.state === 2) {
+        this.updateCall(index, { ...call, state: 3 });
+      }
+    }, this.options.callSetupDelay);
+    return ok();
+  }
+
+  private nextCallIndex(): number {
+    let index = 1;
+    while (this.calls.has(index)) {
+      index += 1;
+    }
+    return index;
+  }
+
+  private updateCall(index: number, call: SimulatorCall) {
+    if (call.state === 6) {
+      this.calls.delete(index);
+    } else {
+      this.calls.set(index, call);
+    }
+    if (this.clcc) {
+      this.emitUrc(formatCall(index, call));
+    }
+  }
+
+  private unlock(code: string, newPin?: string): string {
+    if (this.pukLocked) {
+      if (newPin === undefined || !this.pukAttempts) {
+        return this.formatError({ type: 'CME', code: 12, message: 'SIM PUK required' });
+      }
+      if (code !== (this.options.puk || '12345678')) {
+        this.pukAttempts -= 1;
+        return this.formatError({ type: 'CME', code: 16, message: 'incorrect password' });
+      }
+      this.pukLocked = false;
+      this.pukAttempts = 10;
+      this.pinAttempts = 3;
+      this.pin = newPin;
+    } else if (!this.simLocked) {
+      return this.formatError({ type: 'CME', code: 3, message: 'operation not allowed' });
+    } else if (!this.checkPin(code)) {
+      return this.formatError({ type: 'CME', code: 16, message: 'incorrect password' });
+    }
+    this.simLocked = false;
+    // the SIM status follows the OK, the network registration takes a while longer
+    this.schedule(() => this.emitUrc('+CPIN: READY'), this.options.responseDelay * 2);
+    this.schedule(() => this.emitUrc('Call Ready', 'SMS Ready'), this.options.rebootDelay);
+    return ok();
+  }
+
+  // every wrong PIN counts, the third one blocks the SIM
+  private checkPin(pin: string): boolean {
+    if (pin === this.pin) {
+      this.pinAttempts = 3;
+      return true;
+    }
+    this.pinAttempts -= 1;
+    if (this.pinAttempts <= 0) {
+      this.pukLocked = true;
+      this.schedule(() => this.emitUrc('+CPIN: SIM PUK'), this.options.responseDelay * 2);
+    }
+    return false;
+  }
+
+  private executeSecurity(command: string): string {
+    const upper = command.toUpperCase();
+    const [facility, ...args] = splitArguments(command.substring(command.indexOf('=') + 1));
+    if (upper === 'AT+SPIC') {
+      return `\r\n+SPIC: ${this.pinAttempts},3,${this.pukAttempts},10\r\n${ok()}`;
+    }
+    if (facility !== 'SC') {
+      return this.formatError({ type: 'CME', code: 3, message: 'operation not allowed' });
+    }
+    if (this.simLocked || this.pukLocked) {
+      return this.formatError({ type: 'CME', code: this.pukLocked ? 12 : 11, message: 'SIM PIN required' });
+    }
+    if (upper.startsWith('AT+CLCK=') && args[0] === '2') {
+      return `\r\n+CLCK: ${this.pinLock ? 1 : 0}\r\n${ok()}`;
+    }
+    const [first, second] = args;
+    if (upper.startsWith('AT+CLCK=')) {
+      if (!['0', '1'].includes(first)) {
+        return this.formatError({ type: 'CME', code: 3, message: 'operation not allowed' });
+      }
+      if (!this.checkPin(second)) {
+        return this.formatError({ type: 'CME', code: 16, message: 'incorrect password' });
+      }
+      this.pinLock = first === '1';
+      return ok();
+    }
+    // AT+CPWD="SC",<old>,<new>
+    if (!second || !this.checkPin(first)) {
+      return this.formatError({ type: 'CME', code: 16, message: 'incorrect password' });
+    }
+    this.pin = second;
+    return ok();
+  }
+
+  private pinStatus(): string {
+    return this.pukLocked ? 'SIM PUK' : this.simLocked ? 'SIM PIN' : 'READY';
+  }
+
+  private formatError(error: SimulatorError): string {
+    switch (this.cmee) {
+      case 1:
+        return `\r\n+${error.type} ERROR: ${error.code}\r\n`;
+      case 2:
+        return `\r\n+${error.type} ERROR: ${error.message}\r\n`;
+      default:
+        return '\r\nERROR\r\n';
+    }
+  }
+
+  private respond(response: string) {
+    if (!response.length) {
+      return;
+    }
+    this.schedule(() => this.send(response), this.options.responseDelay);
+  }
+
+  private send(data: string) {
+    this.sendRaw(Buffer.from(data));
+  }
+
+  private sendRaw(data: Buffer) {
+    this.sleep.lastActivity = Date.now();
+    const chunks = this.split(data);
+    this.output = this.output.then(async () => {
+      for (const chunk of chunks) {
+        if (!this._isOpen) {
+          return;
+        }
+        this.emit('data', chunk);
+        if (chunks.length > 1) {
+          await new Promise<void>((resolve) => this.schedule(resolve, this.options.chunkDelay));
+        }
+      }
+    });
+  }
+
+  private split(data: Buffer): Buffer[] {
+    const sizes = Array.isArray(this.options.chunkSize) ? this.options.chunkSize : [this.options.chunkSize];
+    if (!sizes.some((size) => size > 0)) {
+      return [data];
+    }
+    // Cycling through the chunk sizes, the way a real UART cuts responses at random places
+    const chunks: Buffer[] = [];
+    let cursor = 0;
+    while (cursor < data.length) {
+      const size = sizes[this.chunkIndex % sizes.length] || data.length;
+      this.chunkIndex += 1;
+      chunks.push(data.subarray(cursor, cursor + size));
+      cursor += size;
+    }
+    return chunks;
+  }
+
+  private schedule(callback: () => void, delay: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+}
+
+function formatCall(index: number, call: SimulatorCall) {
+  return `+CLCC: ${index},${call.direction},${call.state},0,0,"${call.number}",${
+    call.number.startsWith('+') ? 145 : 129
+  },""`;
+}
+// splits the arguments of a command, commas between quotes included
+function splitArguments(argument: string) {
+  return (argument.match(/"[^"]*"|[^,]+/g) || []).map((value) => value.replace(/^"|"$/g, ''));
+}
+function ok() {
+  return '\r\nOK\r\n';
+}
+function toHex(value: number) {
+  return `00${value.toString(16)}`.slice(-2).toUpperCase();
+}
+function swapDigits(digits: string) {
+  const padded = digits.length % 2 ? `${digits}F` : digits;
+  return (padded.match(/../g) || []).map((pair) => `${pair[1]}${pair[0]}`).join('');
+}
+function encodeTimestamp(date: Date) {
+  const fields = [
+    date.getUTCFullYear() % 100,
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    0,
+  ];
+  return swapDigits(fields.map((field) => `00${field}`.slice(-2)).join(''));
+}
+function formatClock(date: Date, quarters: number) {
+  const local = new Date(date.getTime() + quarters * 15 * 60000);
+  const [year, month, day, hours, minutes, seconds] = [
+    local.getUTCFullYear() % 100,
+    local.getUTCMonth() + 1,
+    local.getUTCDate(),
+    local.getUTCHours(),
+    local.getUTCMinutes(),
+    local.getUTCSeconds(),
+  ].map((field) => `00${field}`.slice(-2));
+  return `${year}/${month}/${day},${hours}:${minutes}:${seconds}${quarters < 0 ? '-' : '+'}${`00${Math.abs(
+    quarters,
+  )}`.slice(-2)}`;
+}
+function tpduLength(pdu: string) {
+  // the length announced by the modem does not include the SMSC part
+  return pdu.length / 2 - parseInt(pdu.substring(0, 2), 16) - 1;
+}
+function parseSubmit(pdu: string): { statusReportRequested: boolean; receiver: string } {
+  const cursor = (parseInt(pdu.substring(0, 2), 16) + 1) * 2;
+  const firstOctet = parseInt(pdu.substring(cursor, cursor + 2), 16);
+  const receiverLength = parseInt(pdu.substring(cursor + 4, cursor + 6), 16);
+  const receiver = swapDigits(pdu.substring(cursor + 8, cursor + 8 + receiverLength + (receiverLength % 2)));
+  return {
+    // TP-SRR is the 6th bit of the first octet
+    statusReportRequested: Math.floor(firstOctet / 32) % 2 === 1,
+    receiver: receiver.replace(/F$/, ''),
+  };
+}
@@ -1,4 +1,3 @@
-import { EventEmitter } from 'stream';
 import Sim800L, { getError, isOk, isWaitingForInput, parseBuffer, promisify, sneakyDelivery } from '..';
 import {
   DeliveryReportRawObject,
@@ -10,17 +9,25 @@ import {
   SmsPduData,
   SmsStatus,
   SmsStatusChangeEvent,
+  SerializedSms,
+  SmsAttemptEvent,
+  SmsFailure,
+  SmsRetryEvent,
+  SmsRetryPolicy,
+  SerializedRetryPolicy,
 } from './types/Sms';
 import { pduMessage, PDUParser } from 'pdu.ts';
 import { v4 } from 'uuid';
 import { JobHandler } from './types/JobHandler';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { SmsEvents } from './types/Events';
 import Logger from './types/Logger';
 import { ModemFunction } from './types/ModemCallback';
 import ModemResponse from './types/ModemResponse';
 
-export class Sms extends EventEmitter {
+export class Sms extends TypedEventEmitter<SmsEvents> {
   private _id = v4();
-  private _smsc?;
+  private _smsc?: string;
   private _smscType: NumberType = NumberType.INTERNATIONAL;
   private _receiver: string;
   private _receiverType: NumberType = NumberType.INTERNATIONAL;
@@ -31,6 +38,11 @@ export class Sms extends EventEmitter {
   private _data: SmsPduChunk[] = [];
   private _modem: Sim800L;
   private _shortRef = '';
+  private _priority = 0;
+  private _sendAt?: Date;
+  private _expiresAt?: Date;
+  private _retryPolicy?: SmsRetryPolicy;
+  private retryTimeouts = new Map<string, any>();
   private logger: Logger;
   public sendFlag: boolean = false;
   /**
@@ -73,6 +85,88 @@ export class Sms extends EventEmitter {
       : SmsStatus.UNKNOWN;
   }
 
+  /**
+   * true if the Sms requests a delivery report for each of its parts
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get deliveryReport(): boolean {
+    return this._requestDeliveryReport;
+  }
+  /**
+   * true if at least one part of the Sms still has to be sent
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get hasIdleParts(): boolean {
+    return this._data.some((part) => part.status === SmsStatus.IDLE);
+  }
+  /**
+   * the number of parts of the Sms that still have to be sent
+   *
+   * @readonly
+   * @type {number}
+   */
+  get idleParts(): number {
+    return this._data.filter((part) => part.status === SmsStatus.IDLE).length;
+  }
+  /**
+   * true while at least one failed part is waiting for its next attempt
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get isRetrying(): boolean {
+    return this.retryTimeouts.size > 0;
+  }
+  /**
+   * true once nothing can happen to the Sms anymore : every part is delivered, failed for good or expired (or sent, if no delivery report was requested)
+   *
+   * @readonly
+   * @type {boolean}
+   */
+  get isSettled(): boolean {
+    return (
+      !this.isRetrying &&
+      this._data.every(
+        (part) =>
+          part.status === SmsStatus.DELIVERED ||
+          part.status === SmsStatus.ERROR ||
+          part.status === SmsStatus.EXPIRED ||
+          (part.status === SmsStatus.SENT && !this._requestDeliveryReport),
+      )
+    );
+  }
+  /**
+   * the priority of the Sms inside the spooler, higher priorities are sent first (defaults to 0)
+   *
+   * @readonly
+   * @type {number}
+   */
+  get priority(): number {
+    return this._priority;
+  }
+  /**
+   * the date before which the spooler won't send the Sms, if any
+   *
+   * @readonly
+   * @type {Date | undefined}
+   */
+  get sendAt(): Date | undefined {
+    return this._sendAt;
+  }
+  /**
+   * the date after which the spooler gives up sending the Sms, if any
+   *
+   * @readonly
+   * @type {Date | undefined}
+   */
+  get expiresAt(): Date | undefined {
+    return this._expiresAt;
+  }
+
   /**
    * Creates an instance of the Sms class. the Sms is an object abstracting the logic required to handle and send SMS in PDU mode
    * As it's designed to work with a Sim800L modem, an instance of Sim800L must be provided, you can also use the createSms() method from the Sim800L instance directly
@@ -94,6 +188,10 @@ export class Sms extends EventEmitter {
       this._smsc = options.smsc;
       this._autoSend = options.autoSend || this._autoSend;
       this._id = options.customId || this._id;
+      this._priority = options.priority || this._priority;
+      this._sendAt = options.sendAt;
+      this._expiresAt = options.expiresAt;
+      this._retryPolicy = options.retryPolicy;
     }
     if (options.autoSend) {
       this.sendFlag = true;
@@ -103,7 +201,86 @@ export class Sms extends EventEmitter {
     this.prepare();
     // If we need a report, we need to subscribe to the deliveryreport event of our modem
     this._modem.on('deliveryreport', this.deliveryReportHandler);
+    // the modem keeps track of its live Sms, to dispose of them on shutdown
+    this._modem.attachSms(this);
+  }
+  /**
+   * Rehydrates an Sms serialized with toJSON(), keeping its id, PDU parts, message references and statuses so late delivery reports can still be matched.
+   * Parts that were being sent when the Sms was serialized are considered idle and will be sent again, parts waiting for a retry get it at the time it was planned. The retry policy is restored without its retryable predicate, the default one applies
+   *
+   * @param {SerializedSms} data - the serialized Sms
+   * @param {Sim800L} modem - an instance of Sim800L which will send the Sms
+   * @returns {Sms} The rehydrated Sms
+   */
+  static fromJSON(data: SerializedSms, modem: Sim800L): Sms {
+    const sms = new Sms(
+      data.receiver,
+      data.text,
+      {
+        customId: data.id,
+        smsc: data.smsc,
+        encoding: data.encoding,
+        deliveryReport: data.deliveryReport,
+        priority: data.priority,
+        sendAt: data.sendAt ? new Date(data.sendAt) : undefined,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+        retryPolicy: data.retryPolicy,
+      },
+      modem,
+    );
+    sms._requestDeliveryReport = data.deliveryReport;
+    sms._receiverType = data.receiverType;
+    sms._smscType = data.smscType;
+    sms._data = data.parts.map((part) => ({
+      ...part,
+      status: part.status === SmsStatus.SENDING ? SmsStatus.IDLE : part.status,
+    }));
+    // An Sms that was already being sent must resume on its own
+    sms.sendFlag = data.sendFlag || (sms.hasIdleParts && data.parts.some((part) => part.status !== SmsStatus.IDLE));
+    // the retries that were pending are re-armed, the overdue ones happen right away
+    sms._data
+      .filter((part) => part.status === SmsStatus.ERROR && part.retryAt)
+      .forEach((part) => sms.scheduleRetry(part, Math.max(new Date(part.retryAt!).getTime() - Date.now(), 0)));
+    return sms;
+  }
+
+  /**
+   * Serializes the Sms, PDU parts and statuses included, for persistence purposes
+   *
+   * @returns {SerializedSms} A JSON compatible representation of the Sms
+   */
+  public toJSON(): SerializedSms {
+    return {
+      id: this._id,
+      receiver: this._receiver,
+      receiverType: this._receiverType,
+      smsc: this._smsc,
+      smscType: this._smscType,
+      encoding: this._encoding,
+      text: this._text,
+      deliveryReport: this._requestDeliveryReport,
+      sendFlag: this.sendFlag,
+      priority: this._priority,
+      sendAt: this._sendAt?.toISOString(),
+      expiresAt: this._expiresAt?.toISOString(),
+      retryPolicy: this.serializeRetryPolicy(),
+      parts: this._data.map((part) => ({ ...part, data: { ...part.data } })),
+    };
+  }
+
+  private serializeRetryPolicy(): SerializedRetryPolicy | undefined {
+    if (!this._retryPolicy) {
+      return undefined;
+    }
+    const policy = this._retryPolicy;
+    const fields: (keyof SerializedRetryPolicy)[] = ['maxAttempts', 'backoff', 'backoffFactor', 'maxBackoff'];
+    // an undefined field would override the default one once restored
+    return fields.reduce(
+      (serialized, field) => (policy[field] === undefined ? serialized : { ...serialized, [field]: policy[field] }),
+      {} as SerializedRetryPolicy,
+    );
   }
+
   // When updating text (if IDLE), updating PDU... getter/setter on text
   // Set number type
 
@@ -124,28 +301,38 @@ export class Sms extends EventEmitter {
   };
 
   /**
-   * Sending the Sms (each part if multipart). uses an handler that updates the sms status property.
+   * Sending the Sms (each idle part if multipart). uses an handler that updates the sms status property.
    *
    * If using the deliveryReport property, the Sms will also listen and handle deliveryreport Events emitted by the Modem
    *
    */
   public send = async (): Promise<boolean> => {
     if (this._modem.isNetworkReady && this._modem.isInitialized) {
-      for (const part of this._data) {
+      for (const part of this._data.filter((chunk) => chunk.status === SmsStatus.IDLE)) {
         this.logger.debug(`smssend - queuing part ${part.id.split('-')[0]} of SMS ${this._id.split('-')[0]}`);
         part.status = SmsStatus.SENDING;
+        part.attempts = (part.attempts || 0) + 1;
         this.emit('statuschange', {
           part: part.id,
           sms: this._id,
           partStatus: part.status,
           smsStatus: this.status,
         } as SmsStatusChangeEvent);
+        this.emit('attempt', { part: part.id, sms: this._id, attempt: part.attempts } as SmsAttemptEvent);
         this.sendPart(null, { part })
           .then((data: ModemResponse | void) => {
-            // TBD if needed
+            if (data && data.result === 'failure') {
+              this.partFailureHandler(part, data);
+            }
           })
-          .catch((error: any) => {
-            throw error instanceof Error ? error : new Error(error);
+          .catch((error: unknown) => {
+            // the command never reached the modem (eg: a transport write error), the retry policy decides what happens next
+            this.partFailureHandler(part, {
+              uuid: v4(),
+              type: 'sms-sent',
+              result: 'failure',
+              error: { type: 'transport', content: error instanceof Error ? error.message : `${error}` },
+            });
           });
       }
       return true;
@@ -154,6 +341,43 @@ export class Sms extends EventEmitter {
     }
   };
 
+  /**
+   * Flags every idle part of the Sms as expired, they won't be sent anymore. Used by the spooler once expiresAt is reached
+   *
+   */
+  public expire = () => {
+    for (const part of this._data.filter((chunk) => chunk.status === SmsStatus.IDLE)) {
+      part.status = SmsStatus.EXPIRED;
+      this.emit('statuschange', {
+        part: part.id,
+        sms: this._id,
+        partStatus: part.status,
+        smsStatus: this.status,
+      } as SmsStatusChangeEvent);
+    }
+    this.sendFlag = false;
+    this.disposeIfSettled();
+  };
+
+  /**
+   * Detaches the Sms from its modem : it stops listening for delivery reports, its pending retries are cancelled and it leaves the spooler.
+   * Called automatically once the Sms is settled and for every live Sms on shutdown, call it to drop an Sms you won't send
+   *
+   */
+  public dispose = () => {
+    this._modem.off('deliveryreport', this.deliveryReportHandler);
+    this.retryTimeouts.forEach((timeout) => clearTimeout(timeout));
+    this.retryTimeouts.clear();
+    this.sendFlag = false;
+    this._modem.detachSms(this);
+  };
+
+  private disposeIfSettled = () => {
+    if (this.isSettled) {
+      this.dispose();
+    }
+  };
+
   private generateSmsParts = (text: string) => {
     const pdu = this.gerneratePduData({
       smsc: this._smsc!,
@@ -228,13 +452,15 @@ export class Sms extends EventEmitter {
         });
         if (part) {
           part.status = SmsStatus.SENT;
+          // the reference must be known by the statuschange listeners (eg: the outbox store)
+          part.shortId = referenceChunk ? parseInt(referenceChunk?.replace('+CMGS: ', ''), 10) : 0;
           this.emit('statuschange', {
             part: part.id,
             sms: this.id,
             partStatus: part.status,
             smsStatus: this.status,
           } as SmsStatusChangeEvent);
-          part.shortId = referenceChunk ? parseInt(referenceChunk?.replace('+CMGS: ', ''), 10) : 0;
+          this.disposeIfSettled();
         }
       }
     }
@@ -250,6 +476,7 @@ export class Sms extends EventEmitter {
             part: part.id,
             sms: this.id,
             error: getError(buffer).message,
+            modemError: getError(buffer).modemError,
           } as SmsErrorEvent);
         }
       }
@@ -261,21 +488,72 @@ export class Sms extends EventEmitter {
         error: {
           content: getError(buffer).message,
           type: 'unknown',
+          modemError: getError(buffer).modemError,
         },
       });
+      // the part status is updated by the partFailureHandler, once the retry policy has been applied
       job.ended = true;
-      // if we've got a reference, we can find and update the status of the part
-      if (job.reference) {
-        const part = this._data.find((chunk) => {
-          return job.reference === chunk.id;
-        });
-        if (part) {
-          part.status = SmsStatus.ERROR;
-          this.emit('statuschange', { part: part.id, sms: this._id, status: part.status });
-        }
-      }
     }
   };
+  private partFailureHandler = (part: SmsPduChunk, response: ModemResponse) => {
+    // the job timed out, the smsHandler never got any answer for this part
+    const timeout = response.error?.type === 'unhandled';
+    if (timeout) {
+      this.emit('smserror', {
+        part: part.id,
+        sms: this.id,
+        error: 'timeout',
+      } as SmsErrorEvent);
+    }
+    part.status = SmsStatus.ERROR;
+    const failure: SmsFailure = {
+      part: part.id,
+      sms: this._id,
+      attempt: part.attempts || 1,
+      timeout,
+      error: timeout ? undefined : response.error?.content,
+      modemError: response.error?.modemError,
+    };
+    const policy = { ...defaultRetryPolicy, ...(this._retryPolicy || this._modem.simConfig.retryPolicy) };
+    const retry = failure.attempt < policy.maxAttempts && policy.retryable(failure);
+    if (retry) {
+      const delay = Math.min(policy.backoff * Math.pow(policy.backoffFactor, failure.attempt - 1), policy.maxBackoff);
+      this.logger.verbose(`smsretry - part ${part.id.split('-')[0]} will be sent again in ${delay}ms`);
+      part.retryAt = new Date(Date.now() + delay).toISOString();
+      this.scheduleRetry(part, delay);
+      this.emit('retry', { ...failure, delay } as SmsRetryEvent);
+    }
+    this.emit('statuschange', {
+      part: part.id,
+      sms: this._id,
+      partStatus: part.status,
+      smsStatus: this.status,
+    } as SmsStatusChangeEvent);
+    if (!retry) {
+      this.logger.verbose(`smsretry - giving up on part ${part.id.split('-')[0]} after ${failure.attempt} attempt(s)`);
+      this.emit('giveup', failure);
+      this.disposeIfSettled();
+    }
+  };
+  private scheduleRetry(part: SmsPduChunk, delay: number) {
+    this.retryTimeouts.set(
+      part.id,
+      setTimeout(() => {
+        this.retryTimeouts.delete(part.id);
+        part.status = SmsStatus.IDLE;
+        delete part.retryAt;
+        this.emit('statuschange', {
+          part: part.id,
+          sms: this._id,
+          partStatus: part.status,
+          smsStatus: this.status,
+        } as SmsStatusChangeEvent);
+        // only the idle parts are sent again, through the spooler so priorities and rate limits still apply
+        this.sendFlag = true;
+        this._modem.spool(this);
+      }, delay),
+    );
+  }
   private deliveryReportHandler = async (delivery: DeliveryReportRawObject) => {
     // parsing the data
     try {
@@ -311,6 +589,9 @@ export class Sms extends EventEmitter {
             message: `delivery report : ${deliveryStatusMap.get(parser.status)}`,
           } as SmsStatusChangeEvent);
         }
+        if (part) {
+          this.disposeIfSettled();
+        }
         // Seems useless   this._modem.execCommand(null, { command: `AT+CMGD=${parser.reference}`, type: 'delete-delivery' });
       }
     } catch (error) {
@@ -319,6 +600,18 @@ export class Sms extends EventEmitter {
   };
 }
 
+// Network timeouts and temporary errors (congestion, no network service, CMS 500...) are worth another try, a wrong destination or a missing SIM isn't
+function isRetryableFailure(failure: SmsFailure): boolean {
+  return failure.timeout || !!failure.modemError?.temporary;
+}
+const defaultRetryPolicy: Required<SmsRetryPolicy> = {
+  maxAttempts: 1,
+  backoff: 5000,
+  backoffFactor: 2,
+  maxBackoff: 300000,
+  retryable: isRetryableFailure,
+};
+
 const deliveryStatusMap = new Map([
   ['00', 'successfully transmitted'],
   ['41', 'incompatible destination'],
@@ -0,0 +1,48 @@
+import { Duplex, EventEmitter } from 'stream';
+import { Transport, TransportCallback } from './types/Transport';
+
+export default class StreamTransport extends EventEmitter implements Transport {
+  private _stream: Duplex;
+
+  /**
+   * the underlying Duplex stream
+   *
+   * @readonly
+   * @type {Duplex}
+   */
+  get stream(): Duplex {
+    return this._stream;
+  }
+
+  /**
+   * Creates a transport from any already connected Node Duplex stream (eg: a net.Socket to a ser2net bridge, or an in-memory fake)
+   *
+   * @param {Duplex} stream - The stream the modem is reachable through
+   */
+  constructor(stream: Duplex) {
+    super();
+    this._stream = stream;
+    this._stream.on('data', (data: Buffer | string) => this.emit('data', data));
+    this._stream.on('error', (err: Error) => this.emit('error', err));
+    this._stream.on('close', () => this.emit('close'));
+  }
+
+  public open = (callback?: TransportCallback) => {
+    // The stream is connected by its owner, opening just notifies the listeners
+    process.nextTick(() => {
+      this.emit('open');
+      if (callback) callback(null);
+    });
+  };
+
+  public close = (callback?: TransportCallback) => {
+    this._stream.end(() => {
+      this._stream.destroy();
+      if (callback) callback(null);
+    });
+  };
+
+  public write = (data: string | Buffer, callback?: TransportCallback) => {
+    this._stream.write(data, callback);
+  };
+}
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'stream';
+
+export type EventMap = { [event: string]: any[] };
+export type EventListener<Events extends EventMap, E extends keyof Events> = (...args: Events[E]) => void;
+
+/**
+ * An EventEmitter checking event names and payloads against an event map at compile time, it behaves exactly like its parent at runtime
+ */
+export class TypedEventEmitter<Events extends EventMap> extends EventEmitter {
+  public on<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+  public once<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+  public addListener<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.addListener(event, listener as (...args: any[]) => void);
+  }
+  public prependListener<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.prependListener(event, listener as (...args: any[]) => void);
+  }
+  public prependOnceListener<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.prependOnceListener(event, listener as (...args: any[]) => void);
+  }
+  public off<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+  public removeListener<E extends keyof Events & string>(event: E, listener: EventListener<Events, E>): this {
+    return super.removeListener(event, listener as (...args: any[]) => void);
+  }
+  public emit<E extends keyof Events & string>(event: E, ...args: Events[E]): boolean {
+    return super.emit(event, ...args);
+  }
+}
+export default TypedEventEmitter;
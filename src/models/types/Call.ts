@@ -0,0 +1,41 @@
+export enum CallDirection {
+  OUTGOING,
+  INCOMING,
+}
+export enum CallState {
+  ACTIVE,
+  HELD,
+  DIALING,
+  ALERTING,
+  INCOMING,
+  WAITING,
+  DISCONNECTED,
+}
+export enum CallMode {
+  VOICE,
+  DATA,
+  FAX,
+}
+
+export type CallInfo = {
+  index: number;
+  direction: CallDirection;
+  state: CallState;
+  mode: CallMode;
+  multiparty: boolean;
+  number?: string;
+  numberType?: number;
+};
+
+export type IncomingCall = {
+  number?: string;
+  numberType?: number;
+  name?: string;
+  // 0: valid, 1: withheld by the caller, 2: not available
+  validity?: number;
+};
+
+export type UrcNotification = {
+  line: string;
+  position: number;
+};
@@ -0,0 +1,24 @@
+export type ClockOptions = {
+  date: Date;
+  // minutes east of UTC, rounded to the quarter hour the modem works with. The timezone of the host by default
+  timezone?: number;
+};
+
+export type NtpOptions = {
+  // pool.ntp.org by default
+  server?: string;
+  // minutes east of UTC the modem clock is set in, rounded to the quarter hour. The timezone of the host by default
+  timezone?: number;
+  // 60s by default
+  timeout?: number;
+};
+
+// each URC carries only some of the fields
+export type TimeUpdate = {
+  // the network time, *PSUTTZ only
+  date?: Date;
+  // minutes east of UTC
+  timezone?: number;
+  // the daylight saving adjustment, in hours
+  dst?: number;
+};
@@ -0,0 +1,69 @@
+import InboundSms from '../InboundSms';
+import { CallInfo, IncomingCall, UrcNotification } from './Call';
+import { PowerEvent, PowerSupply } from './Power';
+import { TimeUpdate } from './Clock';
+import { ShutdownResult } from './Shutdown';
+import { SignalQuality } from './Signal';
+import { UssdResponse } from './Ussd';
+import { Sms } from '../Sms';
+import { NewSmsNotification, DirectSmsRawObject } from './InboundSms';
+import { JobItem } from './JobItem';
+import { ParsedData } from './JobHandler';
+import ModemResponse, { CheckNetworkData, ConnectionStatus, ModemInfo } from './ModemResponse';
+import {
+  DeliveryReportRawObject,
+  SmsAttemptEvent,
+  SmsErrorEvent,
+  SmsFailure,
+  SmsRetryEvent,
+  SmsStatusChangeEvent,
+} from './Sms';
+
+export type NetworkEvent = {
+  networkStatus: ConnectionStatus;
+  // not known when the registration is notified by the modem itself
+  networkAction?: number;
+};
+
+// transport failures are forwarded as is, command failures as the failed ModemResponse
+export type Sim800LErrorEvent = Error | ModemResponse;
+
+export type Sim800LEvents = {
+  open: [];
+  initialized: [ModemInfo];
+  error: [Sim800LErrorEvent];
+  modemready: [boolean];
+  network: [NetworkEvent];
+  networkstatus: [CheckNetworkData];
+  brownout: [];
+  timeout: [JobItem];
+  incoming: [ModemResponse<ParsedData>];
+  newsms: [NewSmsNotification];
+  directsms: [DirectSmsRawObject];
+  sms: [InboundSms];
+  deliveryreport: [DeliveryReportRawObject];
+  spooled: [Sms];
+  dequeued: [Sms];
+  expired: [Sms];
+  urc: [UrcNotification];
+  ring: [];
+  incomingcall: [IncomingCall];
+  callstate: [CallInfo];
+  ussd: [UssdResponse];
+  signal: [SignalQuality];
+  signallow: [SignalQuality];
+  signalrestored: [SignalQuality];
+  power: [PowerSupply];
+  voltagewarning: [PowerEvent];
+  powerdown: [PowerEvent];
+  timeupdate: [TimeUpdate];
+  shutdown: [ShutdownResult];
+};
+
+export type SmsEvents = {
+  statuschange: [SmsStatusChangeEvent];
+  smserror: [SmsErrorEvent];
+  attempt: [SmsAttemptEvent];
+  retry: [SmsRetryEvent];
+  giveup: [SmsFailure];
+};
@@ -0,0 +1,24 @@
+export type HttpMethod = 'GET' | 'POST' | 'HEAD';
+
+export type HttpRequestOptions = {
+  method?: HttpMethod;
+  url: string;
+  headers?: { [name: string]: string };
+  body?: string;
+  timeout?: number;
+};
+
+export type HttpResponse = {
+  status: number;
+  headers: { [name: string]: string };
+  // the body decoded as UTF-8, see rawBody for binary content
+  body: string;
+  rawBody: Buffer;
+  length: number;
+};
+
+export type HttpActionResult = {
+  method: number;
+  status: number;
+  length: number;
+};
@@ -0,0 +1,38 @@
+export enum InboundSmsStatus {
+  UNREAD,
+  READ,
+  UNSENT,
+  SENT,
+}
+
+export type InboundSmsLocation = {
+  storage?: string;
+  index?: number;
+  status?: InboundSmsStatus;
+};
+
+export type NewSmsNotification = {
+  storage: string;
+  index: number;
+};
+
+export type SmsListFilter = 'REC UNREAD' | 'REC READ' | 'STO UNSENT' | 'STO SENT' | 'ALL';
+
+export enum DeleteFlag {
+  INDEX,
+  READ,
+  READ_SENT,
+  READ_SENT_UNSENT,
+  ALL,
+}
+
+export type StoredMessage = {
+  index?: number;
+  status: InboundSmsStatus;
+  pdu: string;
+};
+
+export type DirectSmsRawObject = {
+  length: number;
+  data: string;
+};
@@ -1,6 +1,12 @@
-import { EventEmitter } from 'stream';
+import { TypedEventEmitter } from '../TypedEventEmitter';
+import { Sim800LEvents } from './Events';
 import { JobItem } from './JobItem';
 import Logger from './Logger';
 
-export type JobHandler = (buffer: string, job: JobItem, emitter: EventEmitter, logger?: Logger) => void;
+export type JobHandler = (
+  buffer: string,
+  job: JobItem,
+  emitter: TypedEventEmitter<Sim800LEvents>,
+  logger?: Logger,
+) => void;
 export type ParsedData = string[];
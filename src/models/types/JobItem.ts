@@ -13,4 +13,5 @@ export interface JobItem {
   subcommands?: string[];
   subcommandIndex: number;
   reference?: string;
+  onStart?: (job: JobItem) => void;
 }
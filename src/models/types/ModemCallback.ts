@@ -1,4 +1,5 @@
 import { JobHandler } from './JobHandler';
+import { JobItem } from './JobItem';
 import ModemResponse from './ModemResponse';
 
 export type ModemCallback<SuccessType = any, ErrorType = any> = (
@@ -26,4 +27,5 @@ export type CommandParams = {
   subcommands?: string[];
   reference?: string;
   timeout?: number;
+  onStart?: (job: JobItem) => void;
 };
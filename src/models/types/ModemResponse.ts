@@ -9,6 +9,7 @@ export interface ModemResponse<SuccessType = any, ErrorType = any> {
   error?: {
     type: string;
     content: ErrorType;
+    modemError?: ModemError;
   };
 }
 export default ModemResponse;
@@ -52,13 +53,85 @@ export type CheckPinStatus = {
   status: InitializeStatus;
   message: string;
 };
+// the attempts left before each code is blocked, as reported by AT+SPIC
+export type PinAttempts = {
+  pin: number;
+  pin2: number;
+  puk: number;
+  puk2: number;
+};
 export type CheckNetworkData = {
   networkAction: number;
   networkStatus: ConnectionStatus;
 };
+export type ModemInfo = {
+  manufacturer?: string;
+  model?: string;
+  revision?: string;
+  imei?: string;
+  // SIM identity, undefined while the SIM is locked
+  imsi?: string;
+  iccid?: string;
+  // the subscriber number, only if stored on the SIM
+  number?: string;
+};
+export type CellData = {
+  arfcn: number;
+  // raw RXLEV, 0 to 63
+  rxLevel: number;
+  dbm: number;
+  mcc: number;
+  mnc: number;
+  lac: number;
+  cellId: number;
+  bsic: number;
+  // serving cell only
+  rxQuality?: number;
+  timingAdvance?: number;
+};
+export type CellInfoData = {
+  // undefined when not camping on any cell
+  serving?: CellData;
+  neighbours: CellData[];
+};
+export type GsmLocationData = {
+  latitude: number;
+  longitude: number;
+  // the date the location was computed, UTC
+  date: Date;
+};
+
+export enum ModemErrorCategory {
+  PHONE,
+  SIM,
+  NETWORK,
+  STORAGE,
+  PDU,
+  UNKNOWN,
+}
+export type ModemError = {
+  type: 'CME' | 'CMS';
+  code?: number;
+  category: ModemErrorCategory;
+  temporary: boolean;
+  description: string;
+  raw: string;
+};
 
 export type ModemErrorRaw = {
   isError: boolean;
   message?: string;
   raw?: string | string[];
+  modemError?: ModemError;
+};
+
+export type StorageInfo = {
+  storage?: string;
+  used: number;
+  total: number;
+};
+export type StorageUsage = {
+  read: StorageInfo;
+  write: StorageInfo;
+  receive: StorageInfo;
 };
@@ -0,0 +1,46 @@
+export enum OperatorSelectionMode {
+  AUTOMATIC,
+  MANUAL,
+  DEREGISTER,
+  SET_FORMAT,
+  MANUAL_AUTOMATIC,
+}
+export enum OperatorStatus {
+  UNKNOWN,
+  AVAILABLE,
+  CURRENT,
+  FORBIDDEN,
+}
+// 3GPP TS 27.007 <AcT>, the SIM800L being a GSM only module
+export enum AccessTechnology {
+  GSM,
+  GSM_COMPACT,
+  UTRAN,
+  GSM_EGPRS,
+}
+
+export type OperatorInfo = {
+  mode: OperatorSelectionMode;
+  // undefined when not registered
+  name?: string;
+  numeric?: string;
+  mcc?: number;
+  mnc?: number;
+  accessTechnology?: AccessTechnology;
+};
+
+export type NetworkOperator = {
+  status: OperatorStatus;
+  longName: string;
+  shortName: string;
+  numeric: string;
+  mcc: number;
+  mnc: number;
+  accessTechnology?: AccessTechnology;
+};
+
+export type OperatorSelection = {
+  mode: OperatorSelectionMode;
+  // the numeric MCC+MNC (eg: 20801) or the long name of the operator, required by the manual modes
+  id?: string;
+};
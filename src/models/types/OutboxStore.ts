@@ -0,0 +1,7 @@
+import { SerializedSms } from './Sms';
+
+export interface OutboxStore {
+  load: () => Promise<SerializedSms[]>;
+  save: (sms: SerializedSms) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
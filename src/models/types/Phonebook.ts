@@ -0,0 +1,21 @@
+// SM: SIM phonebook, ME: modem phonebook, FD: fixed dialling, ON: own numbers, LD / MC / RC: last dialled, missed and received calls
+export type PhonebookStorage = 'SM' | 'ME' | 'FD' | 'ON' | 'LD' | 'MC' | 'RC' | 'EN';
+// IRA limits names to ASCII, UCS2 allows any character
+export type PhonebookEncoding = 'IRA' | 'UCS2';
+
+export type PhonebookEntry = {
+  index: number;
+  number: string;
+  // 145 for international numbers, 129 otherwise
+  type: number;
+  name: string;
+};
+
+export type PhonebookEntryOptions = {
+  // the first free index is used if not provided
+  index?: number;
+  number: string;
+  type?: number;
+  name: string;
+  encoding?: PhonebookEncoding;
+};
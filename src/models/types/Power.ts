@@ -0,0 +1,43 @@
+export enum ChargeState {
+  NOT_CHARGING,
+  CHARGING,
+  CHARGED,
+}
+
+export enum SleepMode {
+  DISABLED,
+  // the module sleeps while the DTR line is released
+  DTR,
+  // the module sleeps once the serial port is idle, the first character received wakes it up and is lost
+  AUTO,
+}
+
+export type SleepConfig = {
+  // while the modem sleeps, the brownout detector and each monitor wake it up once per interval at most, 10 minutes by default. 0 pauses them until the modem wakes up for another reason
+  watchdogInterval?: number;
+};
+
+export type PowerSupply = {
+  // <bcs> of AT+CBC
+  chargeState: ChargeState;
+  // <bcl> of AT+CBC, 0 to 100
+  percent: number;
+  // <voltage> of AT+CBC
+  millivolts: number;
+};
+
+// normal: AT+CPOWD=1 or a PWRKEY power down
+export type PowerCause = 'under-voltage' | 'over-voltage' | 'normal';
+
+export type PowerEvent = {
+  cause: PowerCause;
+  // the URC sent by the modem, eg: UNDER-VOLTAGE WARNNING
+  line: string;
+  // the last AT+CBC sample, undefined if none has been taken
+  supply?: PowerSupply;
+};
+
+export type PowerMonitorConfig = {
+  // sampling interval, 60s by default, 0 to disable the sampling
+  interval?: number;
+};
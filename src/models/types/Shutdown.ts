@@ -0,0 +1,14 @@
+export type ShutdownOptions = {
+  // waits for the queued jobs and the outbox to be sent before closing, true by default
+  drain?: boolean;
+  // powers the modem off with AT+CPOWD=1 before closing, false by default
+  powerOff?: boolean;
+  // the longest the drain may take, 30s by default. The remaining jobs fail once it has elapsed
+  timeout?: number;
+};
+
+export type ShutdownResult = {
+  // false when the drain timed out, or was not asked for, while some jobs or messages were pending
+  drained: boolean;
+  poweredOff: boolean;
+};
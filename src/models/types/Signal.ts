@@ -0,0 +1,21 @@
+export type SignalQuality = {
+  // raw <rssi> of AT+CSQ, 0 to 31, 99 if unknown
+  rssi: number;
+  // undefined if unknown
+  dbm?: number;
+  // 0 (no signal) to 4 (excellent)
+  bars: number;
+  // raw <ber> of AT+CSQ (RXQUAL, 0 to 7), undefined if unknown
+  ber?: number;
+};
+
+export type SignalMonitorConfig = {
+  // sampling interval, 30s by default, 0 to disable the sampling
+  interval?: number;
+  // signallow is emitted when the signal falls to this number of bars or below, 1 by default
+  low?: number;
+  // signalrestored is emitted when the signal climbs back to this number of bars or above, 2 by default
+  restored?: number;
+  // the spooler holds the outgoing messages while the signal is below this number of bars, disabled by default
+  spoolerFloor?: number;
+};
@@ -1,13 +1,36 @@
 import { SerialPort } from 'serialport';
 import Logger from './Logger';
+import { OutboxStore } from './OutboxStore';
+import { PowerMonitorConfig, SleepConfig } from './Power';
+import { SignalMonitorConfig } from './Signal';
+import { SmsRetryPolicy } from './Sms';
 import { Flatten, GetReturnType, UnpackPromise } from './Util';
 
 export default interface SimConfig {
   customCnmi?: string;
   deliveryReport?: boolean;
   autoDeleteFromSim?: boolean;
+  multipartTimeout?: number;
+  outboxStore?: OutboxStore;
+  rateLimit?: SpoolerRateLimit;
+  retryPolicy?: SmsRetryPolicy;
+  gprs?: GprsConfig;
+  signal?: SignalMonitorConfig;
+  power?: PowerMonitorConfig;
+  sleep?: SleepConfig;
+  networkTime?: boolean;
   pin?: string;
+  puk?: string;
   smsc?: string;
   logger?: Logger;
 }
+export type SpoolerRateLimit = {
+  messagesPerMinute?: number;
+  partsPerMinute?: number;
+};
+export type GprsConfig = {
+  apn: string;
+  user?: string;
+  password?: string;
+};
 export type PortInfo = Flatten<UnpackPromise<GetReturnType<typeof SerialPort.list>>>;
@@ -0,0 +1,82 @@
+import { ConnectionStatus } from './ModemResponse';
+
+export interface SimulatorOptions {
+  pin?: string;
+  puk?: string;
+  echo?: boolean;
+  responseDelay?: number;
+  chunkSize?: number | number[];
+  chunkDelay?: number;
+  networkStatus?: ConnectionStatus;
+  deliveryReportDelay?: number;
+  rebootDelay?: number;
+  storageSize?: number;
+  phonebookSize?: number;
+  imei?: string;
+  imsi?: string;
+  iccid?: string;
+  // the subscriber number returned by AT+CNUM, none by default
+  ownNumber?: string;
+  callSetupDelay?: number;
+  // the AT+CSQ <rssi> and <ber>
+  rssi?: number;
+  ber?: number;
+  // the AT+CBC supply voltage and battery level
+  millivolts?: number;
+  batteryPercent?: number;
+  // the idle time after which the module falls asleep in AT+CSCLK=2 mode
+  sleepDelay?: number;
+  // the first one is the home network
+  operators?: SimulatorOperator[];
+}
+
+export type SimulatorError = {
+  type: 'CME' | 'CMS';
+  code: number;
+  message: string;
+};
+
+export type SimulatorResponse = string | ((command: string) => string | undefined);
+
+export type SimulatorRule = {
+  pattern: string | RegExp;
+  response: SimulatorResponse | SimulatorError;
+  times: number;
+};
+
+export type SimulatorCall = {
+  direction: number;
+  state: number;
+  number: string;
+};
+
+export type SimulatorStoredMessage = {
+  status: number;
+  pdu: string;
+};
+
+export type SimulatorHttpResponse = {
+  status: number;
+  headers?: { [name: string]: string };
+  body?: string | Buffer;
+};
+
+export type SimulatorHttpRequest = {
+  method: number;
+  url: string;
+  parameters: { [name: string]: string };
+  data?: string;
+};
+
+export type SimulatorOperator = {
+  longName: string;
+  shortName: string;
+  numeric: string;
+  forbidden?: boolean;
+};
+
+export type SimulatorPhonebookEntry = {
+  number: string;
+  type: number;
+  name: string;
+};
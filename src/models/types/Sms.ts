@@ -1,3 +1,5 @@
+import { ModemError } from './ModemResponse';
+
 export enum NumberType {
   INTERNATIONAL = 91,
   UNKNOWN = 81,
@@ -9,6 +11,7 @@ export enum SmsStatus {
   DELIVERED,
   ERROR,
   UNKNOWN,
+  EXPIRED,
 }
 
 export type SmsEncoding = '16bit' | '8bit' | '7bit';
@@ -18,6 +21,9 @@ export type SmsPduChunk = {
   shortId: number;
   data: SmsPduData;
   status: SmsStatus;
+  attempts?: number;
+  // set while a failed part waits for its next attempt (ISO 8601), so a restored Sms can re-arm the retry
+  retryAt?: string;
 };
 
 export interface SmsCreationOptions {
@@ -27,6 +33,10 @@ export interface SmsCreationOptions {
   encoding?: SmsEncoding;
   deliveryReport?: boolean;
   autoSend?: boolean;
+  priority?: number;
+  sendAt?: Date;
+  expiresAt?: Date;
+  retryPolicy?: SmsRetryPolicy;
 }
 export interface SmsPduData {
   tpdu_length: number;
@@ -51,4 +61,52 @@ export type SmsErrorEvent = {
   sms: string;
   error: string;
   errorStatus?: string | number;
+  modemError?: ModemError;
+};
+
+export type SmsFailure = {
+  part: string;
+  sms: string;
+  attempt: number;
+  timeout: boolean;
+  error?: string;
+  modemError?: ModemError;
+};
+
+export interface SmsRetryPolicy {
+  maxAttempts?: number;
+  backoff?: number;
+  backoffFactor?: number;
+  maxBackoff?: number;
+  retryable?: (failure: SmsFailure) => boolean;
+}
+
+export type SerializedRetryPolicy = Omit<SmsRetryPolicy, 'retryable'>;
+
+export type SmsAttemptEvent = {
+  part: string;
+  sms: string;
+  attempt: number;
+};
+
+export type SmsRetryEvent = SmsFailure & {
+  delay: number;
+};
+
+export type SerializedSms = {
+  id: string;
+  receiver: string;
+  receiverType: NumberType;
+  smsc?: string;
+  smscType: NumberType;
+  encoding: SmsEncoding;
+  text: string;
+  deliveryReport: boolean;
+  sendFlag: boolean;
+  priority: number;
+  sendAt?: string;
+  expiresAt?: string;
+  // the retryable predicate is a function, it can't be serialized : a restored Sms uses the default one
+  retryPolicy?: SerializedRetryPolicy;
+  parts: SmsPduChunk[];
 };
@@ -0,0 +1,9 @@
+export type SocketProtocol = 'TCP' | 'UDP';
+
+export type SocketOptions = {
+  host: string;
+  port: number;
+  protocol?: SocketProtocol;
+  // the time allowed to the connection to open, 60s by default
+  timeout?: number;
+};
@@ -0,0 +1,19 @@
+export type TransportCallback = (err?: Error | null) => void;
+
+// true asserts the line, which drives the TTL pin of a USB-UART adapter low
+export type ControlLines = {
+  dtr?: boolean;
+  rts?: boolean;
+};
+
+export interface Transport {
+  open: (callback?: TransportCallback) => void;
+  close: (callback?: TransportCallback) => void;
+  write: (data: string | Buffer, callback?: TransportCallback) => void;
+  // optional, required by the DTR sleep mode
+  set?: (lines: ControlLines, callback?: TransportCallback) => void;
+  on(event: 'data', listener: (data: Buffer | string) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+  on(event: 'open' | 'close', listener: () => void): this;
+  removeAllListeners: (event?: string | symbol) => this;
+}
@@ -0,0 +1,14 @@
+export enum UssdStatus {
+  NO_ACTION_REQUIRED,
+  ACTION_REQUIRED,
+  TERMINATED,
+  OTHER_CLIENT,
+  NOT_SUPPORTED,
+  TIMEOUT,
+}
+
+export type UssdResponse = {
+  status: UssdStatus;
+  text?: string;
+  dcs?: number;
+};